@@ -149,8 +149,8 @@ if (userWithRefs.references) {
     console.log(`   - ${node.getName()} has ${refs?.length || 0} reference(s)`);
     if (refs && refs.length > 0) {
       refs.slice(0, 5).forEach(ref => {
-        const sourceFile = ref.getSourceFile().getBaseName();
-        const line = ref.getStartLineNumber();
+        const sourceFile = ref.node.getSourceFile().getBaseName();
+        const line = ref.line;
         console.log(`     * ${sourceFile}:${line}`);
       });
       if (refs.length > 5) {
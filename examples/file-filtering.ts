@@ -154,20 +154,12 @@ nonServiceFiles.nodes.forEach(file => {
   console.log(`   - ${file.getBaseName()}`);
 });
 
-// Example 7: Two-step approach - first get files, then query within them
-console.log('\n7. Two-step approach - find files then query within them:');
-const files = selector.query<SourceFile>("SELECT * FROM SourceFile WHERE path LIKE '%services%'");
-console.log(`   Step 1: Found ${files.nodes.length} service files`);
-
-// For demonstration, create a new project with only those files
-const filteredProject = new Project({ useInMemoryFileSystem: true });
-files.nodes.forEach(file => {
-  filteredProject.createSourceFile(file.getBaseName(), file.getText());
-});
-
-const filteredSelector = new TsMorphSelector(filteredProject);
-const interfaces = filteredSelector.query<InterfaceDeclaration>('SELECT * FROM InterfaceDeclaration');
-console.log(`   Step 2: Found ${interfaces.nodes.length} interfaces in service files:`);
+// Example 7: Scope a query to matching files with a subquery
+console.log('\n7. Find interfaces declared in service files (subquery):');
+const interfaces = selector.query<InterfaceDeclaration>(
+  "SELECT * FROM InterfaceDeclaration WHERE path IN (SELECT path FROM SourceFile WHERE path LIKE '%services%')"
+);
+console.log(`   Found ${interfaces.nodes.length} interfaces in service files:`);
 interfaces.nodes.forEach(iface => {
   console.log(`   - ${iface.getName()}`);
 });
@@ -306,5 +306,33 @@ for (const [funcName, interfaces] of dependencyGraph) {
   }
 }
 
+// Method 6: Let the query language resolve the types
+console.log('\n\n' + '='.repeat(70));
+console.log('Method 6: Query parameter and return types directly\n');
+
+const takingUser = selector.query<FunctionDeclaration>(
+  "SELECT name, paramType, returnType FROM FunctionDeclaration WHERE paramType = 'User' OR returnType = 'User'"
+);
+
+// Union members and array elements match too, so processUser and getUsers are included
+takingUser.rows!.forEach(row => {
+  console.log(`${row.name}(${row.paramType ?? ''}): ${row.returnType}`);
+});
+
+// Method 7: Collect the whole dependency closure with WITH DEPENDENCIES
+console.log('\n\n' + '='.repeat(70));
+console.log('Method 7: Transitive interface dependencies with WITH DEPENDENCIES\n');
+
+const withDependencies = selector.query<FunctionDeclaration>(
+  "SELECT * FROM FunctionDeclaration WHERE modifier LIKE '%export%' WITH DEPENDENCIES"
+);
+
+// Interfaces used by the properties of parameter and return types are included, each once
+withDependencies.nodes.forEach(func => {
+  const dependencies = withDependencies.dependencies?.get(func) ?? [];
+  const names = dependencies.map(dependency => (dependency as InterfaceDeclaration).getName());
+  console.log(`${func.getName()}: ${names.join(', ') || '(none)'}`);
+});
+
 console.log('\n' + '='.repeat(70));
 console.log('\n✓ Complete! Use these methods to analyze function interface dependencies.');
@@ -148,8 +148,8 @@ for (const typeName of propertyTypeNames) {
     
     if (refs && refs.length > 0) {
       refs.slice(0, 3).forEach(ref => {
-        const sourceFile = ref.getSourceFile().getBaseName();
-        const line = ref.getStartLineNumber();
+        const sourceFile = ref.node.getSourceFile().getBaseName();
+        const line = ref.line;
         console.log(`      * ${sourceFile}:${line}`);
       });
     }
@@ -166,8 +166,8 @@ for (const typeName of propertyTypeNames) {
       
       if (refs && refs.length > 0) {
         refs.slice(0, 3).forEach(ref => {
-          const sourceFile = ref.getSourceFile().getBaseName();
-          const line = ref.getStartLineNumber();
+          const sourceFile = ref.node.getSourceFile().getBaseName();
+          const line = ref.line;
           console.log(`      * ${sourceFile}:${line}`);
         });
       }
@@ -256,5 +256,29 @@ if (analysis) {
   console.log(`\nTotal references (interface + all property types): ${analysis.allReferencesCount}`);
 }
 
+// Method 4: Query property types directly
+console.log('\n\n' + '='.repeat(60));
+console.log('Method 4: Query property types with type and typeSymbol\n');
+
+const userProperties = selector.query(
+  "SELECT name, type, typeSymbol FROM PropertyDeclaration WHERE parent.name = 'User'"
+);
+
+for (const row of userProperties.rows!) {
+  console.log(`  - ${row.name}: ${row.type}${row.typeSymbol ? ` (symbol ${row.typeSymbol})` : ''}`);
+}
+
+// Method 5: Let WITH DEPENDENCIES walk the property types
+console.log('\n\n' + '='.repeat(60));
+console.log('Method 5: Interfaces and type aliases User depends on, with DEPTH\n');
+
+const userDependencies = selector.query<InterfaceDeclaration>(
+  "SELECT * FROM InterfaceDeclaration WHERE name = 'User' WITH DEPENDENCIES DEPTH 2"
+);
+
+for (const dependency of userDependencies.dependencies?.get(userDependencies.nodes[0]) ?? []) {
+  console.log(`  - ${(dependency as InterfaceDeclaration | TypeAliasDeclaration).getName()} (${dependency.getKindName()})`);
+}
+
 console.log('\n' + '='.repeat(60));
 console.log('\n✓ Complete! Use these methods to query interfaces with property type references.');
@@ -0,0 +1,101 @@
+import { QueryBuilder } from '../src/builder';
+import { QueryParser } from '../src/parser';
+
+describe('QueryBuilder', () => {
+  const parser = new QueryParser();
+  
+  it('should build the query the parser produces for the same text', () => {
+    const built = new QueryBuilder('ClassDeclaration')
+      .where('name').like('%Service')
+      .and('memberCount').greaterThanOrEqual(2)
+      .orderBy('name', 'DESC')
+      .limit(5)
+      .withReferences()
+      .build();
+    expect(built).toEqual(parser.parse(
+      "SELECT * FROM ClassDeclaration WHERE name LIKE '%Service' AND memberCount >= 2 ORDER BY name DESC LIMIT 5 WITH REFERENCES"
+    ));
+  });
+  
+  it('should let AND bind tighter than OR', () => {
+    const built = new QueryBuilder('FunctionDeclaration')
+      .where('name').startsWith('get')
+      .and('paramCount').equals(1)
+      .or('name').in(['main', 'run'])
+      .build();
+    expect(built.where).toEqual(parser.parse(
+      "SELECT * FROM FunctionDeclaration WHERE name LIKE 'get%' AND paramCount = 1 OR name IN ('main', 'run')"
+    ).where);
+  });
+  
+  it('should select columns and accept property paths', () => {
+    const built = new QueryBuilder('MethodDeclaration')
+      .select('name', 'parent.name')
+      .where('ancestor(ClassDeclaration).name').equals('UserService')
+      .build();
+    expect(built).toEqual(parser.parse(
+      "SELECT name, parent.name FROM MethodDeclaration WHERE ancestor(ClassDeclaration).name = 'UserService'"
+    ));
+  });
+  
+  it('should build boolean tests', () => {
+    const built = new QueryBuilder('FunctionDeclaration')
+      .where('isExported').isTrue()
+      .and('isAsync').isFalse()
+      .build();
+    expect(built.where).toEqual(parser.parse(
+      'SELECT * FROM FunctionDeclaration WHERE isExported IS TRUE AND isAsync IS FALSE'
+    ).where);
+  });
+  
+  it('should build call conditions and expansions', () => {
+    const built = new QueryBuilder('MethodDeclaration')
+      .where('calledBy').equals('handleRequest')
+      .withCallees(2)
+      .withSupertypes()
+      .withDependencies()
+      .build();
+    expect(built).toEqual(parser.parse(
+      "SELECT * FROM MethodDeclaration WHERE CALLED BY 'handleRequest' WITH SUPERTYPES, CALLEES DEPTH 2, DEPENDENCIES"
+    ));
+  });
+  
+  it('should escape wildcards in contains', () => {
+    expect(new QueryBuilder('*').where('text').contains('50%_off').build().where).toEqual({
+      type: 'condition', property: 'text', operator: 'LIKE', value: '%50\\%\\_off%', escape: '\\'
+    });
+    expect(new QueryBuilder('*').where('name').matches(/^get/i).build().where)
+      .toMatchObject({ operator: 'MATCHES', value: '/^get/i' });
+  });
+  
+  it('should only accept properties of the node type', () => {
+    // @ts-expect-error SourceFile has no name
+    new QueryBuilder('SourceFile').where('name');
+    // @ts-expect-error interfaces have no parameters
+    new QueryBuilder('InterfaceDeclaration').select('paramCount');
+    // @ts-expect-error only SyntaxKind names are node types
+    new QueryBuilder('ArowFunction');
+  });
+  
+  it('should reject counts query text cannot express', () => {
+    const builder = new QueryBuilder('FunctionDeclaration');
+    expect(() => builder.limit(-1)).toThrow('LIMIT must be an integer of at least 0, got -1');
+    expect(() => builder.offset(1.5)).toThrow(/OFFSET must be an integer/);
+    expect(() => builder.withCallers(0)).toThrow('DEPTH must be an integer of at least 1, got 0');
+    expect(() => builder.withCallees(NaN)).toThrow(/DEPTH must be an integer/);
+    expect(() => builder.withDependencies(2.5)).toThrow(/DEPTH must be an integer/);
+    expect(builder.limit(0).offset(2).withDependencies().build()).toMatchObject({ limit: 0, offset: 2, withDependencies: {} });
+  });
+  
+  it('should reject invalid regular expressions', () => {
+    const condition = new QueryBuilder('FunctionDeclaration').where('name');
+    expect(() => condition.matches('(unclosed')).toThrow(/Invalid regular expression: .*unclosed/);
+    expect(() => condition.matches('/^get/z')).toThrow(/Invalid regular expression/);
+    expect(new QueryBuilder('FunctionDeclaration').where('name').matches(/^get/i).build().where)
+      .toEqual(parser.parse("SELECT * FROM FunctionDeclaration WHERE name MATCHES '/^get/i'").where);
+  });
+  
+  it('should refuse to run without a selector', () => {
+    expect(() => new QueryBuilder('ClassDeclaration').run()).toThrow(/not attached to a selector/);
+  });
+});
@@ -0,0 +1,436 @@
+import {
+  Node,
+  InterfaceDeclaration,
+  ClassDeclaration,
+  FunctionDeclaration,
+  MethodDeclaration,
+  MethodSignature,
+  PropertyDeclaration,
+  PropertySignature,
+  GetAccessorDeclaration,
+  SetAccessorDeclaration,
+  ConstructorDeclaration,
+  CallSignatureDeclaration,
+  ParameterDeclaration,
+  VariableDeclaration,
+  TypeAliasDeclaration,
+  EnumDeclaration,
+  EnumMember,
+  ModuleDeclaration,
+  ImportDeclaration,
+  ExportDeclaration,
+  Decorator,
+  SourceFile,
+  SyntaxKind,
+  KindToNodeMappings
+} from 'ts-morph';
+import {
+  NODE_TYPES,
+  NodeType,
+  ParsedQuery,
+  QueryOperator,
+  QueryProperty,
+  QueryResult,
+  SelectColumn,
+  OrderByItem,
+  SyntaxKindName,
+  WhereCondition,
+  WhereExpression
+} from './types';
+import { parseRegexLiteral } from './patterns';
+
+/**
+ * ts-morph class of the nodes each node type returns
+ */
+export interface NodeTypeMap {
+  InterfaceDeclaration: InterfaceDeclaration;
+  ClassDeclaration: ClassDeclaration;
+  FunctionDeclaration: FunctionDeclaration;
+  MethodDeclaration: MethodDeclaration;
+  MethodSignature: MethodSignature;
+  PropertyDeclaration: PropertyDeclaration | PropertySignature;
+  GetAccessorDeclaration: GetAccessorDeclaration;
+  SetAccessorDeclaration: SetAccessorDeclaration;
+  ConstructorDeclaration: ConstructorDeclaration;
+  CallSignature: CallSignatureDeclaration;
+  Parameter: ParameterDeclaration;
+  VariableDeclaration: VariableDeclaration;
+  TypeAliasDeclaration: TypeAliasDeclaration;
+  EnumDeclaration: EnumDeclaration;
+  EnumMember: EnumMember;
+  ModuleDeclaration: ModuleDeclaration;
+  ImportDeclaration: ImportDeclaration;
+  ExportDeclaration: ExportDeclaration;
+  Decorator: Decorator;
+  SourceFile: SourceFile;
+  '*': Node;
+}
+
+type CommonProperty = 'kind' | 'text' | 'path' | 'baseName' | 'extension' | 'line' | 'startLine' | 'endLine' | 'lineCount';
+
+type NamedProperty = CommonProperty | 'name' | 'jsdoc' | 'hasJsDoc' | 'type' | 'typeSymbol';
+
+type DeclarationProperty = NamedProperty | 'modifier';
+
+type SignatureProperty = 'paramCount' | 'typeParamCount' | 'returnType' | 'paramType';
+
+type CallProperty = 'calls' | 'calledBy';
+
+type ExportFlag = 'isExported' | 'isDefaultExport' | 'isAmbient';
+
+type MemberFlag = 'isStatic' | 'isAbstract' | 'isOptional' | 'scope';
+
+type DecoratedProperty = DeclarationProperty | 'decorator';
+
+type InheritanceProperty = 'extends' | 'inherits';
+
+/**
+ * Properties that resolve to a value for each node type
+ */
+export interface NodeTypeProperties {
+  InterfaceDeclaration: DeclarationProperty | ExportFlag | InheritanceProperty | 'memberCount' | 'typeParamCount';
+  ClassDeclaration: DecoratedProperty | ExportFlag | InheritanceProperty | 'implements' | 'isAbstract' | 'memberCount' | 'typeParamCount';
+  FunctionDeclaration: DeclarationProperty | ExportFlag | SignatureProperty | CallProperty | 'isAsync';
+  MethodDeclaration: DecoratedProperty | MemberFlag | SignatureProperty | CallProperty | 'isAsync';
+  MethodSignature: NamedProperty | SignatureProperty | 'isOptional';
+  PropertyDeclaration: DecoratedProperty | MemberFlag | 'isReadonly';
+  GetAccessorDeclaration: DecoratedProperty | MemberFlag | SignatureProperty | CallProperty;
+  SetAccessorDeclaration: DecoratedProperty | MemberFlag | SignatureProperty | CallProperty;
+  ConstructorDeclaration: CommonProperty | CallProperty | 'name' | 'modifier' | 'jsdoc' | 'hasJsDoc' | 'scope' | 'paramCount' | 'paramType';
+  CallSignature: CommonProperty | 'jsdoc' | 'hasJsDoc' | SignatureProperty;
+  Parameter: CommonProperty | 'name' | 'modifier' | 'decorator' | 'type' | 'typeSymbol' | 'isOptional' | 'isReadonly' | 'scope';
+  VariableDeclaration: NamedProperty | ExportFlag;
+  TypeAliasDeclaration: DeclarationProperty | ExportFlag | 'typeParamCount';
+  EnumDeclaration: DeclarationProperty | ExportFlag | 'memberCount';
+  EnumMember: NamedProperty;
+  ModuleDeclaration: DeclarationProperty | ExportFlag;
+  ImportDeclaration: CommonProperty;
+  ExportDeclaration: CommonProperty;
+  Decorator: CommonProperty | 'name' | 'args';
+  SourceFile: CommonProperty;
+  '*': QueryProperty;
+}
+
+/**
+ * ts-morph class of the nodes a node type returns, looked up by SyntaxKind for kinds not in NodeTypeMap
+ */
+export type NodeOf<K extends NodeType> = K extends keyof NodeTypeMap
+  ? NodeTypeMap[K]
+  : K extends SyntaxKindName
+    ? (typeof SyntaxKind)[K] extends keyof KindToNodeMappings ? KindToNodeMappings[(typeof SyntaxKind)[K]] : Node
+    : Node;
+
+/**
+ * A property of a node type (any property for kinds not in NodeTypeProperties), or any property of a
+ * related node reached through a path
+ */
+export type BuilderProperty<K extends NodeType> =
+  | (K extends keyof NodeTypeProperties ? NodeTypeProperties[K] : QueryProperty)
+  | `parent.${QueryProperty}`
+  | `sourceFile.${QueryProperty}`
+  | `decorator.${QueryProperty}`
+  | `jsdoc.${QueryProperty}`
+  | `jsdoc.tag(${string})`
+  | `ancestor(${typeof NODE_TYPES[number]}).${QueryProperty}`;
+
+/**
+ * Builds a ParsedQuery step by step, with property names checked against the node type
+ *
+ * Conditions added with `and` bind tighter than those added with `or`, as in query text.
+ * Builders are mutable: every method returns the same builder.
+ *
+ * @example
+ * ```typescript
+ * const services = selector.from('ClassDeclaration')
+ *   .where('name').like('%Service')
+ *   .and('modifier').contains('export')
+ *   .withReferences()
+ *   .run(); // QueryResult<ClassDeclaration>
+ * ```
+ */
+export class QueryBuilder<K extends NodeType> {
+  private columns?: SelectColumn[];
+  /** WHERE conditions as OR-ed groups of AND-ed conditions */
+  private disjuncts: WhereCondition[][] = [];
+  private orderByItems?: OrderByItem[];
+  private limitCount?: number;
+  private offsetCount?: number;
+  private references = false;
+  private subtypes?: boolean;
+  private supertypes?: boolean;
+  private callerDepth?: number;
+  private calleeDepth?: number;
+  private dependencies?: { depth?: number };
+
+  constructor(
+    private readonly nodeType: K,
+    private readonly executor?: (query: ParsedQuery) => QueryResult
+  ) {}
+
+  /**
+   * Project the given properties into result rows instead of selecting whole nodes
+   */
+  select(...properties: Array<BuilderProperty<K>>): this {
+    this.columns = properties.map(property => ({ property }));
+    return this;
+  }
+
+  /**
+   * Start a condition; several `where` calls are combined with AND
+   */
+  where(property: BuilderProperty<K>): ConditionBuilder<K> {
+    return this.and(property);
+  }
+
+  /**
+   * Start a condition that must hold together with the previous ones
+   */
+  and(property: BuilderProperty<K>): ConditionBuilder<K> {
+    return new ConditionBuilder(this, property, condition => {
+      if (this.disjuncts.length === 0) {
+        this.disjuncts.push([]);
+      }
+      this.disjuncts[this.disjuncts.length - 1].push(condition);
+    });
+  }
+
+  /**
+   * Start an alternative to all conditions added so far, e.g. `a AND b OR c`
+   */
+  or(property: BuilderProperty<K>): ConditionBuilder<K> {
+    return new ConditionBuilder(this, property, condition => {
+      this.disjuncts.push([condition]);
+    });
+  }
+
+  orderBy(property: BuilderProperty<K>, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    this.orderByItems = [...(this.orderByItems ?? []), { property, direction }];
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = this.checkCount('LIMIT', count, 0);
+    return this;
+  }
+
+  offset(count: number): this {
+    this.offsetCount = this.checkCount('OFFSET', count, 0);
+    return this;
+  }
+
+  withReferences(): this {
+    this.references = true;
+    return this;
+  }
+
+  withSubtypes(): this {
+    this.subtypes = true;
+    return this;
+  }
+
+  withSupertypes(): this {
+    this.supertypes = true;
+    return this;
+  }
+
+  withCallers(depth = 1): this {
+    this.callerDepth = this.checkCount('DEPTH', depth, 1);
+    return this;
+  }
+
+  withCallees(depth = 1): this {
+    this.calleeDepth = this.checkCount('DEPTH', depth, 1);
+    return this;
+  }
+
+  /**
+   * Collect the declarations the nodes' signatures depend on, up to the given depth or all of them
+   */
+  withDependencies(depth?: number): this {
+    this.dependencies = { depth: depth === undefined ? undefined : this.checkCount('DEPTH', depth, 1) };
+    return this;
+  }
+
+  /**
+   * The query built so far, in the form the parser produces for the equivalent query text
+   */
+  build(): ParsedQuery {
+    const groups: WhereExpression[] = this.disjuncts.map(conditions =>
+      conditions.length === 1 ? conditions[0] : { type: 'and', operands: conditions }
+    );
+    const where: WhereExpression | undefined = groups.length === 0
+      ? undefined
+      : groups.length === 1 ? groups[0] : { type: 'or', operands: groups };
+
+    return {
+      columns: this.columns,
+      nodeType: this.nodeType,
+      view: undefined,
+      alias: undefined,
+      joins: undefined,
+      where,
+      groupBy: undefined,
+      having: undefined,
+      compound: undefined,
+      orderBy: this.orderByItems,
+      limit: this.limitCount,
+      offset: this.offsetCount,
+      withReferences: this.references,
+      referenceFilter: undefined,
+      withSubtypes: this.subtypes,
+      withSupertypes: this.supertypes,
+      withCallers: this.callerDepth,
+      withCallees: this.calleeDepth,
+      withDependencies: this.dependencies
+    };
+  }
+
+  /**
+   * Execute the query with the selector that created the builder
+   */
+  run(): QueryResult<NodeOf<K>> {
+    if (!this.executor) {
+      throw new Error('This builder is not attached to a selector; create it with TsMorphSelector.from');
+    }
+    return this.executor(this.build()) as QueryResult<NodeOf<K>>;
+  }
+
+  /**
+   * Reject counts the query text could not express, as the parser does
+   */
+  private checkCount(clause: string, count: number, min: number): number {
+    if (!Number.isInteger(count) || count < min) {
+      throw new Error(`${clause} must be an integer of at least ${min}, got ${count}`);
+    }
+    return count;
+  }
+}
+
+/**
+ * Completes a condition on one property and returns to the query builder
+ */
+export class ConditionBuilder<K extends NodeType> {
+  constructor(
+    private readonly builder: QueryBuilder<K>,
+    private readonly property: BuilderProperty<K>,
+    private readonly add: (condition: WhereCondition) => void
+  ) {}
+
+  equals(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.EQUALS, value);
+  }
+
+  notEquals(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.NOT_EQUALS, value);
+  }
+
+  lessThan(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.LESS_THAN, value);
+  }
+
+  lessThanOrEqual(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.LESS_THAN_OR_EQUAL, value);
+  }
+
+  greaterThan(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.GREATER_THAN, value);
+  }
+
+  greaterThanOrEqual(value: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.GREATER_THAN_OR_EQUAL, value);
+  }
+
+  between(low: string | number, high: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.BETWEEN, [low, high]);
+  }
+
+  notBetween(low: string | number, high: string | number): QueryBuilder<K> {
+    return this.condition(QueryOperator.NOT_BETWEEN, [low, high]);
+  }
+
+  /**
+   * Case-insensitive LIKE pattern with `%` and `_` wildcards
+   */
+  like(pattern: string): QueryBuilder<K> {
+    return this.condition(QueryOperator.LIKE, pattern);
+  }
+
+  notLike(pattern: string): QueryBuilder<K> {
+    return this.condition(QueryOperator.NOT_LIKE, pattern);
+  }
+
+  /**
+   * Case-sensitive LIKE pattern
+   */
+  likeBinary(pattern: string): QueryBuilder<K> {
+    return this.condition(QueryOperator.LIKE_BINARY, pattern);
+  }
+
+  glob(pattern: string): QueryBuilder<K> {
+    return this.condition(QueryOperator.GLOB, pattern);
+  }
+
+  /**
+   * Regular expression match; a RegExp keeps its flags, and a string is checked as the parser would
+   */
+  matches(pattern: RegExp | string): QueryBuilder<K> {
+    const source = pattern instanceof RegExp ? pattern.toString() : pattern;
+    try {
+      parseRegexLiteral(source);
+    } catch (error) {
+      throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+    }
+    return this.condition(QueryOperator.MATCHES, source);
+  }
+
+  /**
+   * Boolean test for flags such as `isExported`
+   */
+  isTrue(): QueryBuilder<K> {
+    return this.condition(QueryOperator.IS, true);
+  }
+
+  isFalse(): QueryBuilder<K> {
+    return this.condition(QueryOperator.IS, false);
+  }
+
+  in(values: Array<string | number>): QueryBuilder<K> {
+    return this.condition(QueryOperator.IN, values);
+  }
+
+  notIn(values: Array<string | number>): QueryBuilder<K> {
+    return this.condition(QueryOperator.NOT_IN, values);
+  }
+
+  /**
+   * Case-insensitive substring match, a LIKE with the text's wildcards escaped
+   */
+  contains(text: string): QueryBuilder<K> {
+    return this.likeText('%', text, '%');
+  }
+
+  startsWith(text: string): QueryBuilder<K> {
+    return this.likeText('', text, '%');
+  }
+
+  endsWith(text: string): QueryBuilder<K> {
+    return this.likeText('%', text, '');
+  }
+
+  private likeText(prefix: string, text: string, suffix: string): QueryBuilder<K> {
+    if (!/[%_\\]/.test(text)) {
+      return this.condition(QueryOperator.LIKE, `${prefix}${text}${suffix}`);
+    }
+    const escaped = text.replace(/[%_\\]/g, '\\$&');
+    return this.condition(QueryOperator.LIKE, `${prefix}${escaped}${suffix}`, '\\');
+  }
+
+  private condition(operator: QueryOperator, value: WhereCondition['value'], escape?: string): QueryBuilder<K> {
+    const condition: WhereCondition = { type: 'condition', property: this.property, operator, value };
+    if (escape !== undefined) {
+      condition.escape = escape;
+    }
+    this.add(condition);
+    return this.builder;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Error thrown when a query string cannot be parsed
+ *
+ * Carries the position of the offending token so tools can point at it,
+ * and the message itself ends with the query line and a caret marker:
+ *
+ * ```
+ * Unknown property 'nmae'. Did you mean 'name'? (line 1, column 38)
+ *   SELECT * FROM ClassDeclaration WHERE nmae = 'User'
+ *                                        ^^^^
+ * ```
+ */
+export class QuerySyntaxError extends Error {
+  /** Zero-based offset of the offending token in the query string */
+  readonly offset: number;
+  /** One-based line of the offending token */
+  readonly line: number;
+  /** One-based column of the offending token */
+  readonly column: number;
+
+  constructor(
+    /** Short description of the problem, without position information */
+    readonly reason: string,
+    /** The full query string that failed to parse */
+    readonly query: string,
+    offset: number,
+    /** Source text of the offending token, empty at end of query */
+    readonly token: string,
+    /** Known names close to the offending token */
+    readonly suggestions: string[] = []
+  ) {
+    const { line, column, lineText } = locate(query, offset);
+    const width = Math.max(token.length, 1);
+    const hint = suggestions.length > 0
+      ? ` Did you mean ${suggestions.map(s => `'${s}'`).join(' or ')}?`
+      : '';
+    super(
+      `${reason}.${hint} (line ${line}, column ${column})\n` +
+      `  ${lineText}\n` +
+      `  ${' '.repeat(column - 1)}${'^'.repeat(width)}`
+    );
+    this.name = 'QuerySyntaxError';
+    this.offset = offset;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Resolve an offset into a line/column pair and the text of that line
+ */
+function locate(query: string, offset: number): { line: number; column: number; lineText: string } {
+  const before = query.slice(0, offset);
+  const lines = before.split('\n');
+  const line = lines.length;
+  const column = lines[lines.length - 1].length + 1;
+  const lineText = query.split('\n')[line - 1] ?? '';
+  return { line, column, lineText };
+}
+
+/**
+ * Find the candidates closest to a misspelled word, best match first
+ */
+export function suggest(word: string, candidates: readonly string[]): string[] {
+  const lowerWord = word.toLowerCase();
+  const threshold = Math.max(2, Math.floor(word.length / 3));
+
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(lowerWord, candidate.toLowerCase()) }))
+    .filter(entry => entry.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(entry => entry.candidate);
+}
+
+/**
+ * Levenshtein distance, treating a swap of adjacent characters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Error thrown when bind parameters do not fit a query's placeholders
+ */
+export class QueryParameterError extends Error {
+  constructor(
+    message: string,
+    /** The placeholder concerned, `?1` for the first positional one or `:name`; undefined for count mismatches */
+    readonly parameter?: string
+  ) {
+    super(message);
+    this.name = 'QueryParameterError';
+  }
+}
+
+/**
+ * Error thrown when serialized query JSON has an unsupported version or does not describe a valid query
+ */
+export class QueryJSONError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryJSONError';
+  }
+}
@@ -1,151 +1,857 @@
 import {
   Node,
   Project,
-  InterfaceDeclaration,
-  ClassDeclaration,
-  FunctionDeclaration,
-  MethodDeclaration,
-  PropertyDeclaration,
-  PropertySignature,
-  VariableDeclaration,
-  TypeAliasDeclaration,
-  EnumDeclaration,
-  ImportDeclaration,
-  ExportDeclaration,
+  JSDoc,
+  ReferencedSymbol,
+  ReferencedSymbolEntry,
+  JSDocTag,
   SourceFile,
-  SyntaxKind
+  SyntaxKind,
+  Type,
+  TypeFormatFlags
 } from 'ts-morph';
-import { ParsedQuery, QueryResult, WhereCondition, QueryOperator, NodeType, SelectorOptions } from './types';
+import {
+  ParsedQuery,
+  QueryResult,
+  QueryRow,
+  PropertyPath,
+  SelectColumn,
+  AggregateColumn,
+  OrderByItem,
+  AggregateOrderByItem,
+  Operand,
+  PropertyValue,
+  BooleanExpression,
+  LogicalExpression,
+  NotExpression,
+  ConditionValue,
+  WhereCondition,
+  WhereExpression,
+  PropertyReference,
+  RelationCondition,
+  JoinRelation,
+  JoinClause,
+  NodeTuple,
+  Parameter,
+  QueryOperator,
+  NodeType,
+  NodeReference,
+  ReferenceFilter,
+  ReferenceKind,
+  SelectorOptions
+} from './types';
+import { columnLabel, compareToLiteral, compareValues, computeAggregate, isAggregate, sameOperand, syntaxKindOf } from './values';
+import { globToRegExp, likeToRegExp, parseRegexLiteral } from './patterns';
+import { collectParameters, parameterLabel } from './parameters';
+import { QueryParameterError } from './errors';
+
+/**
+ * Pattern operators whose result is inverted
+ */
+const NEGATED_PATTERN_OPERATORS = new Set<QueryOperator>([
+  QueryOperator.NOT_LIKE,
+  QueryOperator.NOT_LIKE_BINARY,
+  QueryOperator.NOT_GLOB,
+  QueryOperator.NOT_MATCHES
+]);
+
+/**
+ * Negated operators and the operators they negate; on a property with several values they hold when
+ * no value matches the positive operator
+ */
+const POSITIVE_OPERATORS = new Map<QueryOperator, QueryOperator>([
+  [QueryOperator.NOT_EQUALS, QueryOperator.EQUALS],
+  [QueryOperator.NOT_LIKE, QueryOperator.LIKE],
+  [QueryOperator.NOT_LIKE_BINARY, QueryOperator.LIKE_BINARY],
+  [QueryOperator.NOT_GLOB, QueryOperator.GLOB],
+  [QueryOperator.NOT_MATCHES, QueryOperator.MATCHES],
+  [QueryOperator.NOT_IN, QueryOperator.IN],
+  [QueryOperator.NOT_BETWEEN, QueryOperator.BETWEEN]
+]);
+
+/**
+ * Declarations that own the calls in their bodies; calls in nested arrow functions and function
+ * expressions belong to the nearest of these around them, unless the function initializes a
+ * variable or property (see `getCaller`)
+ */
+const CALLER_KINDS = new Set<SyntaxKind>([
+  SyntaxKind.FunctionDeclaration,
+  SyntaxKind.MethodDeclaration,
+  SyntaxKind.Constructor,
+  SyntaxKind.GetAccessor,
+  SyntaxKind.SetAccessor
+]);
+
+/**
+ * Declarations WITH DEPENDENCIES collects
+ */
+const DEPENDENCY_KINDS = new Set<SyntaxKind>([
+  SyntaxKind.InterfaceDeclaration,
+  SyntaxKind.TypeAliasDeclaration,
+  SyntaxKind.EnumDeclaration,
+  SyntaxKind.ClassDeclaration
+]);
+
+/**
+ * Source name under which a query without joins binds its nodes; its property references are unqualified
+ */
+const DEFAULT_SOURCE = '';
+
+/**
+ * One row of a query's FROM clause: the node bound to each source, null for an unmatched LEFT JOIN
+ */
+type Binding = NodeTuple;
+
+/**
+ * One result of a query in a compound query, identified by its node or by its column values
+ */
+interface CompoundEntry {
+  key: unknown;
+  nodes: Node[];
+  /** Column values, when the queries select columns */
+  values?: PropertyValue[];
+}
+
+/**
+ * Functions and methods each one calls, and the reverse
+ */
+interface CallGraph {
+  callees: Map<Node, Set<Node>>;
+  callers: Map<Node, Set<Node>>;
+}
+
+/**
+ * Per-execution caches
+ */
+interface ExecutionContext {
+  /** Candidate nodes per node type */
+  nodes: Map<NodeType, Node[]>;
+  /** Nodes selected by each view */
+  views: Map<string, Node[]>;
+  /** Results of uncorrelated subqueries, which do not depend on the outer row */
+  subqueries: Map<ParsedQuery, Binding[][]>;
+  /** Nodes each node relates to, per IMPLEMENTS, EXTENDS, INHERITS and USES */
+  relations: Map<JoinRelation, Map<Node, Set<Node>>>;
+  /** Calls across the project, built when a query first needs them */
+  callGraph?: CallGraph;
+  /** Declarations each node's signature names directly, for WITH DEPENDENCIES */
+  dependencies: Map<Node, Set<Node>>;
+}
 
 /**
  * Executes parsed queries against a ts-morph Project
  */
 export class QueryExecutor {
-  constructor(private project: Project, private options: SelectorOptions = {}) {}
+  private patternCache = new Map<string, RegExp>();
+  /** Caches shared by a query and its subqueries while it executes */
+  private context?: ExecutionContext;
+  
+  /**
+   * @param views Queries of the views that FROM and JOIN sources may name
+   */
+  constructor(
+    private project: Project,
+    private options: SelectorOptions = {},
+    private views: ReadonlyMap<string, ParsedQuery> = new Map()
+  ) {}
   
   /**
    * Execute a parsed query and return matching nodes
+   * @throws QueryParameterError if the query still has parameter placeholders
    */
   execute<T extends Node = Node>(query: ParsedQuery): QueryResult<T> {
-    const sourceFiles = this.project.getSourceFiles();
+    const [unbound] = collectParameters(query);
+    if (unbound) {
+      throw this.unboundParameter(unbound);
+    }
     
-    // Special case: if querying for SourceFile nodes
-    if (query.nodeType === 'SourceFile') {
-      const filteredNodes = query.where
-        ? sourceFiles.filter(node => this.matchesWhereConditions(node, query.where!))
-        : sourceFiles;
+    this.context = {
+      nodes: new Map(),
+      views: new Map(),
+      subqueries: new Map(),
+      relations: new Map(),
+      dependencies: new Map()
+    };
+    try {
+      if (query.compound) {
+        return this.executeCompound<T>(query);
+      }
+      
+      const groups = this.select(query);
+      const bindings = groups.flat();
+      const nodes = this.primaryNodes(query, bindings);
       
       return {
-        nodes: filteredNodes as unknown as T[],
-        references: undefined
+        nodes: nodes as T[],
+        rows: query.columns ? groups.map(group => this.buildRow(group, query.columns!)) : undefined,
+        tuples: query.joins ? bindings : undefined,
+        ...this.expand<T>(query, nodes)
       };
+    } finally {
+      this.context = undefined;
+    }
+  }
+  
+  /**
+   * Execute a query combined with others by UNION, INTERSECT or EXCEPT
+   */
+  private executeCompound<T extends Node>(query: ParsedQuery): QueryResult<T> {
+    const entries = this.selectCompound(query, false);
+    const nodes = [...new Set(entries.flatMap(entry => entry.nodes))];
+    const labels = query.columns?.map(columnLabel);
+    
+    return {
+      nodes: nodes as T[],
+      rows: labels
+        ? entries.map(entry => Object.fromEntries(labels.map((label, i) => [label, entry.values![i]])))
+        : undefined,
+      ...this.expand<T>(query, nodes)
+    };
+  }
+  
+  /**
+   * Collect what the WITH clause asks for about the selected nodes
+   */
+  private expand<T extends Node>(
+    query: ParsedQuery,
+    nodes: Node[]
+  ): Pick<QueryResult<T>, 'references' | 'subtypes' | 'supertypes' | 'callers' | 'callees' | 'dependencies'> {
+    const references = query.withReferences && query.nodeType !== 'SourceFile'
+      ? this.getReferences(nodes, query.referenceFilter)
+      : undefined;
+    const subtypes = query.withSubtypes ? this.getSubtypes(nodes) : undefined;
+    const supertypes = query.withSupertypes ? this.getSupertypes(nodes) : undefined;
+    const callers = query.withCallers ? this.getCalls(nodes, 'callers', query.withCallers) : undefined;
+    const callees = query.withCallees ? this.getCalls(nodes, 'callees', query.withCallees) : undefined;
+    const dependencies = query.withDependencies
+      ? this.getDependencies(nodes, query.withDependencies.depth)
+      : undefined;
+    
+    return {
+      references: references as Map<T, NodeReference[]> | undefined,
+      subtypes: subtypes as Map<T, Node[]> | undefined,
+      supertypes: supertypes as Map<T, Node[]> | undefined,
+      callers: callers as Map<T, Node[]> | undefined,
+      callees: callees as Map<T, Node[]> | undefined,
+      dependencies: dependencies as Map<T, Node[]> | undefined
+    };
+  }
+  
+  /**
+   * Combine the results of a compound query left to right, then sort and page them
+   *
+   * @param nested Whether this runs for a view, which is not capped by the maxResults option
+   */
+  private selectCompound(query: ParsedQuery, nested: boolean): CompoundEntry[] {
+    const first: ParsedQuery = { ...query, compound: undefined, orderBy: undefined, limit: undefined, offset: undefined };
+    let entries = this.compoundEntries(first);
+    
+    for (const part of query.compound!) {
+      const right = this.compoundEntries(part.query);
+      if (part.operator === 'UNION ALL') {
+        entries = [...entries, ...right];
+        continue;
+      }
+      
+      const rightKeys = new Set(right.map(entry => entry.key));
+      const combined = part.operator === 'UNION'
+        ? [...entries, ...right]
+        : entries.filter(entry => rightKeys.has(entry.key) === (part.operator === 'INTERSECT'));
+      
+      // Keep the first entry per node (or per column values)
+      const seen = new Set<unknown>();
+      entries = combined.filter(entry => {
+        if (seen.has(entry.key)) {
+          return false;
+        }
+        seen.add(entry.key);
+        return true;
+      });
+    }
+    
+    if (query.orderBy) {
+      const columns = query.columns;
+      entries = this.sortEntries(entries, query.orderBy, (entry, item) => columns
+        ? entry.values![columns.findIndex(column => sameOperand(column, item))]
+        : this.getPropertyValue(entry.nodes[0], (item as OrderByItem).property));
+    }
+    return this.paginate(entries, query.limit, query.offset, nested ? undefined : this.options.maxResults);
+  }
+  
+  /**
+   * Results of one query of a compound query: its nodes, or its rows when it selects columns
+   */
+  private compoundEntries(query: ParsedQuery): CompoundEntry[] {
+    const groups = this.select(query, undefined, true);
+    const columns = query.columns;
+    if (!columns) {
+      return this.primaryNodes(query, groups.flat()).map(node => ({ key: node, nodes: [node] }));
     }
     
-    const allNodes: Node[] = [];
+    return groups.map(group => {
+      const values = columns.map(column => this.getOperandValue(group, column));
+      return { key: JSON.stringify(values), nodes: this.primaryNodes(query, group), values };
+    });
+  }
+  
+  /**
+   * Nodes of the first source; joined rows may repeat a node, which is kept once
+   */
+  private primaryNodes(query: ParsedQuery, bindings: Binding[]): Node[] {
+    const primary = query.joins ? this.sourceName(query) : DEFAULT_SOURCE;
+    return [...new Set(bindings.map(binding => binding[primary]!))];
+  }
+  
+  private unboundParameter(parameter: Parameter): QueryParameterError {
+    const label = parameterLabel(parameter);
+    return new QueryParameterError(`No value bound for parameter ${label}; use bindParameters before executing`, label);
+  }
+  
+  /**
+   * Run a SELECT and return the requested page of groups (one row per group when ungrouped)
+   *
+   * @param outer Current row of the enclosing query when running a subquery
+   * @param nested Whether this is a subquery, which is not capped by the maxResults option
+   */
+  private select(query: ParsedQuery, outer?: Binding, nested = false): Binding[][] {
+    const allBindings = query.joins
+      ? this.joinSources(query, outer)
+      : this.collectSource(query).map(node => ({ [DEFAULT_SOURCE]: node }));
+    
+    // Filter rows based on WHERE conditions
+    const filteredBindings = query.where
+      ? allBindings.filter(binding => this.matchesWhereConditions(binding, query.where!, outer))
+      : allBindings;
+    
+    // Ungrouped queries are handled as groups of one row each
+    let groups = this.isGrouped(query)
+      ? this.groupBindings(filteredBindings, query.groupBy ?? [])
+      : filteredBindings.map(binding => [binding]);
     
-    // Collect nodes based on node type
-    for (const sourceFile of sourceFiles) {
-      const nodes = this.getNodesByType(sourceFile, query.nodeType);
-      allNodes.push(...nodes);
+    if (query.having) {
+      groups = groups.filter(group => this.evaluate(query.having!, condition =>
+        this.matchesValue(
+          this.getOperandValue(group, condition),
+          condition.operator,
+          this.resolveConditionValue(condition.value, group[0], outer),
+          condition.escape
+        )
+      ));
     }
     
-    // Filter nodes based on WHERE conditions
-    let filteredNodes = query.where
-      ? allNodes.filter(node => this.matchesWhereConditions(node, query.where!))
-      : allNodes;
+    // Sort and page before the expensive reference lookups
+    if (query.orderBy) {
+      groups = this.sortEntries(groups, query.orderBy, (group, item) => this.getOperandValue(group, item));
+    }
+    return this.paginate(groups, query.limit, query.offset, nested ? undefined : this.options.maxResults);
+  }
+  
+  /**
+   * Build the rows of a FROM clause with joins, joining sources left to right
+   */
+  private joinSources(query: ParsedQuery, outer: Binding | undefined): Binding[] {
+    let bindings: Binding[] = this.collectSource(query)
+      .map(node => ({ [this.sourceName(query)]: node }));
     
-    // Get references if requested
-    const references = query.withReferences
-      ? this.getReferences(filteredNodes)
-      : undefined;
+    for (const join of query.joins!) {
+      const name = this.sourceName(join);
+      const candidates = this.collectSource(join);
+      const joined: Binding[] = [];
+      
+      for (const binding of bindings) {
+        let matched = false;
+        for (const candidate of candidates) {
+          const extended = { ...binding, [name]: candidate };
+          if (this.matchesWhereConditions(extended, join.on, outer)) {
+            joined.push(extended);
+            matched = true;
+          }
+        }
+        if (!matched && join.type === 'left') {
+          joined.push({ ...binding, [name]: null });
+        }
+      }
+      bindings = joined;
+    }
     
-    return {
-      nodes: filteredNodes as T[],
-      references: references as Map<T, Node[]> | undefined
+    return bindings;
+  }
+  
+  /**
+   * Name a FROM or JOIN source is referenced by: its alias, or its view or node type when unaliased
+   */
+  private sourceName(source: ParsedQuery | JoinClause): string {
+    return source.alias ?? source.view ?? source.nodeType;
+  }
+  
+  /**
+   * Candidate nodes of a FROM or JOIN source: the nodes its view selects, or all nodes of its type
+   */
+  private collectSource(source: ParsedQuery | JoinClause): Node[] {
+    return source.view !== undefined ? this.collectView(source.view) : this.collectNodes(source.nodeType);
+  }
+  
+  /**
+   * Run a view's query, cached for the current execution
+   */
+  private collectView(name: string): Node[] {
+    const cached = this.context!.views.get(name);
+    if (cached) {
+      return cached;
+    }
+    
+    const query = this.views.get(name);
+    if (!query) {
+      throw new Error(`Unknown view '${name}'`);
+    }
+    const nodes = query.compound
+      ? [...new Set(this.selectCompound(query, true).flatMap(entry => entry.nodes))]
+      : this.primaryNodes(query, this.select(query, undefined, true).flat());
+    this.context!.views.set(name, nodes);
+    return nodes;
+  }
+  
+  /**
+   * Collect all nodes of a type across the project, cached for the current execution
+   */
+  private collectNodes(nodeType: NodeType): Node[] {
+    const cached = this.context!.nodes.get(nodeType);
+    if (cached) {
+      return cached;
+    }
+    
+    const sourceFiles = this.project.getSourceFiles();
+    
+    let allNodes: Node[];
+    if (nodeType === 'SourceFile') {
+      // Special case: SourceFile nodes are the files themselves
+      allNodes = sourceFiles;
+    } else {
+      allNodes = [];
+      
+      // Collect nodes based on node type
+      for (const sourceFile of sourceFiles) {
+        const nodes = this.getNodesByType(sourceFile, nodeType);
+        allNodes.push(...nodes);
+      }
+    }
+    
+    this.context!.nodes.set(nodeType, allNodes);
+    return allNodes;
+  }
+  
+  /**
+   * Run a subquery for the given outer row; uncorrelated subqueries run once per execution
+   */
+  private runSubquery(query: ParsedQuery, outer: Binding | undefined): Binding[][] {
+    const cached = this.context!.subqueries.get(query);
+    if (cached) {
+      return cached;
+    }
+    
+    const groups = this.select(query, outer, true);
+    if (!this.isCorrelated(query)) {
+      this.context!.subqueries.set(query, groups);
+    }
+    return groups;
+  }
+  
+  /**
+   * Whether a subquery refers to its enclosing query through `outer.<property>` or an outer alias
+   */
+  private isCorrelated(query: ParsedQuery): boolean {
+    const refersToOuter = (expression: BooleanExpression<{ type: string; value?: ConditionValue }>): boolean => {
+      switch (expression.type) {
+        case 'and':
+        case 'or':
+          return (expression as LogicalExpression<any>).operands.some(refersToOuter);
+        
+        case 'not':
+          return refersToOuter((expression as NotExpression<any>).operand);
+        
+        default: {
+          const value = (expression as { value?: ConditionValue }).value;
+          return typeof value === 'object' && !Array.isArray(value) && value.type === 'outer';
+        }
+      }
     };
+    
+    return (query.where !== undefined && refersToOuter(query.where))
+      || (query.having !== undefined && refersToOuter(query.having))
+      || (query.joins ?? []).some(join => refersToOuter(join.on));
   }
   
   /**
-   * Get nodes of a specific type from a source file
+   * Whether the query aggregates nodes into groups rather than returning them one by one
+   */
+  private isGrouped(query: ParsedQuery): boolean {
+    return query.groupBy !== undefined
+      || query.having !== undefined
+      || (query.columns ?? []).some(isAggregate);
+  }
+  
+  /**
+   * Partition rows by their GROUP BY values, keeping groups in order of first appearance
+   *
+   * Without GROUP BY the aggregates run over a single group, which exists even when no node matched.
+   */
+  private groupBindings(bindings: Binding[], groupBy: PropertyPath[]): Binding[][] {
+    if (groupBy.length === 0) {
+      return [bindings];
+    }
+    
+    const groups = new Map<string, Binding[]>();
+    for (const binding of bindings) {
+      const key = JSON.stringify(groupBy.map(property => this.readProperty(binding, { property })));
+      const group = groups.get(key);
+      if (group) {
+        group.push(binding);
+      } else {
+        groups.set(key, [binding]);
+      }
+    }
+    return [...groups.values()];
+  }
+  
+  /**
+   * Resolve a property or aggregate against a group; a plain property reads the group's first row,
+   * which GROUP BY guarantees shares its value with the rest of the group
+   */
+  private getOperandValue(group: Binding[], operand: Operand): PropertyValue {
+    if (isAggregate(operand)) {
+      const property = operand.property;
+      const values = property
+        ? group.map(binding => this.readProperty(binding, { property }))
+        : group.map(() => 1);
+      return computeAggregate(operand.aggregate, values);
+    }
+    return group.length > 0 ? this.readProperty(group[0], operand) : null;
+  }
+  
+  /**
+   * Read a property of the node a row binds to the referenced source
+   */
+  private readProperty(binding: Binding, reference: PropertyReference): PropertyValue {
+    const node = binding[reference.source ?? DEFAULT_SOURCE];
+    return node ? this.getPropertyValue(node, reference.property) : null;
+  }
+  
+  /**
+   * Sort groups or compound results by ORDER BY keys; ties keep project order and nulls sort last in ascending order
+   */
+  private sortEntries<E>(
+    entries: E[],
+    orderBy: Array<OrderByItem | AggregateOrderByItem>,
+    getValue: (entry: E, item: OrderByItem | AggregateOrderByItem) => PropertyValue
+  ): E[] {
+    const keyed = entries.map(entry => ({
+      entry,
+      keys: orderBy.map(item => getValue(entry, item))
+    }));
+    
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orderBy.length; i++) {
+        const comparison = compareValues(a.keys[i], b.keys[i]);
+        if (comparison !== 0) {
+          return orderBy[i].direction === 'DESC' ? -comparison : comparison;
+        }
+      }
+      return 0;
+    });
+    
+    return keyed.map(item => item.entry);
+  }
+  
+  /**
+   * Apply OFFSET and LIMIT, capping the page at maxResults when given
+   */
+  private paginate<E>(entries: E[], limit?: number, offset?: number, maxResults?: number): E[] {
+    const start = offset ?? 0;
+    const caps = [limit, maxResults || undefined].filter((cap): cap is number => cap !== undefined);
+    const count = caps.length > 0 ? Math.min(...caps) : undefined;
+    
+    if (start === 0 && (count === undefined || count >= entries.length)) {
+      return entries;
+    }
+    return entries.slice(start, count === undefined ? undefined : start + count);
+  }
+  
+  /**
+   * Project a group into a plain row using the same resolvers as WHERE conditions
+   */
+  private buildRow(group: Binding[], columns: Array<SelectColumn | AggregateColumn>): QueryRow {
+    const row: QueryRow = {};
+    for (const column of columns) {
+      row[columnLabel(column)] = this.getOperandValue(group, column);
+    }
+    return row;
+  }
+  
+  /**
+   * Get all nodes of a specific type in a source file, however deeply nested: functions in
+   * namespaces, classes in `declare module` blocks and members of class expressions included
    */
   private getNodesByType(sourceFile: SourceFile, nodeType: NodeType): Node[] {
     if (nodeType === '*') {
       return sourceFile.getDescendants();
     }
     
-    const methodMap: { [key in NodeType]?: () => any[] } = {
-      'InterfaceDeclaration': () => sourceFile.getInterfaces(),
-      'ClassDeclaration': () => sourceFile.getClasses(),
-      'FunctionDeclaration': () => sourceFile.getFunctions(),
-      'TypeAliasDeclaration': () => sourceFile.getTypeAliases(),
-      'EnumDeclaration': () => sourceFile.getEnums(),
-      'ImportDeclaration': () => sourceFile.getImportDeclarations(),
-      'ExportDeclaration': () => sourceFile.getExportDeclarations(),
-      'VariableDeclaration': () => {
-        const declarations: VariableDeclaration[] = [];
-        for (const statement of sourceFile.getVariableStatements()) {
-          declarations.push(...statement.getDeclarations());
-        }
-        return declarations;
-      },
-      'MethodDeclaration': () => {
-        const methods: MethodDeclaration[] = [];
-        for (const cls of sourceFile.getClasses()) {
-          methods.push(...cls.getMethods());
-        }
-        return methods;
-      },
-      'PropertyDeclaration': () => {
-        const properties: (PropertyDeclaration | PropertySignature)[] = [];
-        for (const cls of sourceFile.getClasses()) {
-          properties.push(...cls.getProperties());
-        }
-        for (const iface of sourceFile.getInterfaces()) {
-          properties.push(...iface.getProperties());
-        }
-        return properties;
-      }
-    };
+    // PropertyDeclaration also covers the property signatures of interfaces and type literals
+    if (nodeType === 'PropertyDeclaration') {
+      return [
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.PropertyDeclaration),
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.PropertySignature)
+      ].sort((a, b) => a.getPos() - b.getPos());
+    }
+    
+    // `namespace A.B.C` is one declaration; the B and C it nests in its body are not written separately
+    if (nodeType === 'ModuleDeclaration') {
+      return sourceFile.getDescendantsOfKind(SyntaxKind.ModuleDeclaration)
+        .filter(declaration => !Node.isModuleDeclaration(declaration.getParent()));
+    }
     
-    const method = methodMap[nodeType];
-    return method ? method() : [];
+    return sourceFile.getDescendantsOfKind(syntaxKindOf(nodeType));
   }
   
   /**
-   * Check if a node matches all WHERE conditions
+   * Check if a row satisfies a WHERE or ON expression tree
+   * @param outer Current row of the enclosing query, for `outer.<property>` references
    */
-  private matchesWhereConditions(node: Node, conditions: WhereCondition[]): boolean {
-    return conditions.every(condition => this.matchesCondition(node, condition));
+  private matchesWhereConditions(binding: Binding, expression: WhereExpression, outer?: Binding): boolean {
+    return this.evaluate(expression, condition => {
+      switch (condition.type) {
+        case 'exists':
+          return this.runSubquery(condition.query, binding).length > 0;
+        
+        case 'relation':
+          return this.matchesRelation(binding, condition);
+        
+        default:
+          return this.matchesCondition(binding, condition, outer);
+      }
+    });
   }
   
   /**
-   * Check if a node matches a single condition
+   * Evaluate a boolean expression tree, testing its leaf conditions with the given callback
    */
-  private matchesCondition(node: Node, condition: WhereCondition): boolean {
-    const value = this.getPropertyValue(node, condition.property);
+  private evaluate<C extends { type: string }>(
+    expression: BooleanExpression<C>,
+    test: (condition: C) => boolean
+  ): boolean {
+    switch (expression.type) {
+      case 'and':
+        return (expression as LogicalExpression<C>).operands.every(operand => this.evaluate(operand, test));
+      
+      case 'or':
+        return (expression as LogicalExpression<C>).operands.some(operand => this.evaluate(operand, test));
+      
+      case 'not':
+        return !this.evaluate((expression as NotExpression<C>).operand, test);
+      
+      default:
+        return test(expression as C);
+    }
+  }
+  
+  /**
+   * Check if a row matches a single condition
+   */
+  private matchesCondition(binding: Binding, condition: WhereCondition, outer?: Binding): boolean {
+    const node = binding[condition.source ?? DEFAULT_SOURCE];
+    const values = node ? this.getPropertyValues(node, condition.property, true) : [];
+    const expected = this.resolveConditionValue(condition.value, binding, outer);
+    
+    // A property with several values, such as the decorators of a node or the members of a union
+    // type, matches when one of them does, and a negated operator when none of them does
+    const positive = POSITIVE_OPERATORS.get(condition.operator);
+    if (!positive) {
+      return values.some(value => this.matchesValue(value, condition.operator, expected, condition.escape));
+    }
     
-    if (value === null || value === undefined) {
+    // Like the positive operator, a negated one never matches a missing value or a null literal
+    const present = values.filter(value => value !== null && value !== undefined);
+    if (expected === null || (values.length > 0 && present.length === 0)) {
+      return false;
+    }
+    return !present.some(value => this.matchesValue(value, positive, expected, condition.escape));
+  }
+  
+  /**
+   * Check if the nodes a row binds to two sources are related; a null side never matches
+   */
+  private matchesRelation(binding: Binding, condition: RelationCondition): boolean {
+    const left = binding[condition.left];
+    const right = binding[condition.right];
+    if (!left || !right) {
       return false;
     }
     
-    switch (condition.operator) {
+    if (condition.relation === 'CONTAINS') {
+      return right.getAncestors().includes(left);
+    }
+    return this.getRelatedNodes(left, condition.relation).has(right);
+  }
+  
+  /**
+   * Resolve (and cache) the declarations a node implements, extends, inherits from or uses in its
+   * signature; base classes and interfaces resolve through symbols, so `Base<T>` and aliased imports
+   * lead to the declaration of `Base`
+   */
+  private getRelatedNodes(node: Node, relation: JoinRelation): Set<Node> {
+    let byNode = this.context!.relations.get(relation);
+    if (!byNode) {
+      byNode = new Map();
+      this.context!.relations.set(relation, byNode);
+    }
+    
+    let related = byNode.get(node);
+    if (!related && relation === 'INHERITS') {
+      related = new Set();
+      byNode.set(node, related);
+      const pending = [node];
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        for (const base of [...this.getRelatedNodes(current, 'EXTENDS'), ...this.getRelatedNodes(current, 'IMPLEMENTS')]) {
+          if (base !== node && !related.has(base)) {
+            related.add(base);
+            pending.push(base);
+          }
+        }
+      }
+    }
+    if (!related) {
+      let references: Node[] = [];
+      if (relation === 'IMPLEMENTS' && Node.isClassDeclaration(node)) {
+        references = node.getImplements().map(clause => clause.getExpression());
+      } else if (relation === 'EXTENDS' && Node.isClassDeclaration(node)) {
+        const base = node.getExtends();
+        references = base ? [base.getExpression()] : [];
+      } else if (relation === 'EXTENDS' && Node.isInterfaceDeclaration(node)) {
+        references = node.getExtends().map(clause => clause.getExpression());
+      } else if (relation === 'USES') {
+        // Only the signature counts: skip type annotations inside function and method bodies
+        const body = (node as any).getBody?.() as Node | undefined;
+        references = node.getDescendantsOfKind(SyntaxKind.TypeReference)
+          .filter(reference => !body || !reference.getAncestors().includes(body))
+          .map(reference => reference.getTypeName());
+      }
+      related = new Set(references.flatMap(reference => this.resolveDeclarations(reference)));
+      byNode.set(node, related);
+    }
+    return related;
+  }
+  
+  /**
+   * Resolve the name at a node to its declarations, following import aliases
+   */
+  private resolveDeclarations(node: Node): Node[] {
+    const symbol = node.getSymbol();
+    if (!symbol) {
+      return [];
+    }
+    const target = symbol.isAlias() ? symbol.getAliasedSymbol() ?? symbol : symbol;
+    return target.getDeclarations();
+  }
+  
+  /**
+   * Turn a condition value into literals: column references read the current row, outer references
+   * the enclosing query's row, and subqueries run with the current row as their outer row
+   */
+  private resolveConditionValue(
+    value: ConditionValue,
+    binding: Binding | undefined,
+    outer: Binding | undefined
+  ): string | number | Array<string | number> | null {
+    if (typeof value === 'boolean') {
+      return String(value);
+    }
+    
+    // Parameters are bound before execution, so lists hold only literals
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return value as string | number | Array<string | number>;
+    }
+    
+    if (value.type === 'parameter') {
+      throw this.unboundParameter(value);
+    }
+    
+    if (value.type === 'outer') {
+      return outer ? this.readProperty(outer, value) : null;
+    }
+    
+    if (value.type === 'column') {
+      return binding ? this.readProperty(binding, value) : null;
+    }
+    
+    const column = value.query.columns![0];
+    return this.runSubquery(value.query, binding)
+      .map(group => this.getOperandValue(group, column))
+      .filter((resolved): resolved is string | number => resolved !== null);
+  }
+  
+  /**
+   * Check if a resolved value satisfies an operator against the expected literal(s)
+   */
+  private matchesValue(
+    resolved: PropertyValue,
+    operator: QueryOperator,
+    literal: string | number | Array<string | number> | null,
+    escape?: string
+  ): boolean {
+    if (resolved === null || resolved === undefined || literal === null) {
+      // Unlike != 'true', IS NOT TRUE also holds for nodes without the flag
+      return operator === QueryOperator.IS_NOT && literal !== null;
+    }
+    
+    const value = String(resolved);
+    const expected = Array.isArray(literal) ? literal.map(String) : String(literal);
+    
+    switch (operator) {
       case QueryOperator.EQUALS:
-        return value === condition.value;
+      case QueryOperator.IS:
+        return value === expected;
       
       case QueryOperator.NOT_EQUALS:
-        return value !== condition.value;
+      case QueryOperator.IS_NOT:
+        return value !== expected;
       
       case QueryOperator.LIKE:
-        return this.matchesPattern(value, condition.value as string);
-      
       case QueryOperator.NOT_LIKE:
-        return !this.matchesPattern(value, condition.value as string);
+      case QueryOperator.LIKE_BINARY:
+      case QueryOperator.NOT_LIKE_BINARY:
+      case QueryOperator.GLOB:
+      case QueryOperator.NOT_GLOB:
+      case QueryOperator.MATCHES:
+      case QueryOperator.NOT_MATCHES: {
+        const matched = this.getPattern(operator, expected as string, escape).test(value);
+        return NEGATED_PATTERN_OPERATORS.has(operator) ? !matched : matched;
+      }
       
       case QueryOperator.IN:
-        return Array.isArray(condition.value) && condition.value.includes(value);
+        return Array.isArray(expected) && expected.includes(value);
       
       case QueryOperator.NOT_IN:
-        return Array.isArray(condition.value) && !condition.value.includes(value);
+        return Array.isArray(expected) && !expected.includes(value);
+      
+      case QueryOperator.LESS_THAN:
+        return compareToLiteral(resolved, literal as string | number) < 0;
+      
+      case QueryOperator.LESS_THAN_OR_EQUAL:
+        return compareToLiteral(resolved, literal as string | number) <= 0;
+      
+      case QueryOperator.GREATER_THAN:
+        return compareToLiteral(resolved, literal as string | number) > 0;
+      
+      case QueryOperator.GREATER_THAN_OR_EQUAL:
+        return compareToLiteral(resolved, literal as string | number) >= 0;
+      
+      case QueryOperator.BETWEEN:
+      case QueryOperator.NOT_BETWEEN: {
+        const [low, high] = literal as Array<string | number>;
+        const inRange = compareToLiteral(resolved, low) >= 0 && compareToLiteral(resolved, high) <= 0;
+        return operator === QueryOperator.BETWEEN ? inRange : !inRange;
+      }
       
       default:
         return false;
@@ -153,11 +859,141 @@ export class QueryExecutor {
   }
   
   /**
-   * Get the value of a property from a node
+   * Get the value of a property from a node, following path steps such as `parent.` first
+   */
+  private getPropertyValue(node: Node, property: string): PropertyValue {
+    const values = this.getPropertyValues(node, property).filter(value => value !== null);
+    return values.length <= 1 ? values[0] ?? null : values.join(', ');
+  }
+  
+  /**
+   * Resolve a property path to all of its values: one per decorator, JSDoc comment, JSDoc tag or
+   * parameter for `decorator`, `jsdoc`, `tag`, `paramType` and paths through them, a single value otherwise
+   * @param expandTypes Whether type properties also yield the members of union types and the
+   *   element types of arrays, so that conditions match `User` against `User[]` and `User | string`
+   */
+  private getPropertyValues(node: Node, property: string, expandTypes = false): PropertyValue[] {
+    const dot = property.indexOf('.');
+    if (dot !== -1) {
+      return this.navigate(node, property.slice(0, dot))
+        .flatMap(related => this.getPropertyValues(related, property.slice(dot + 1), expandTypes));
+    }
+    
+    switch (property) {
+      case 'type':
+      case 'typeSymbol':
+      case 'returnType':
+      case 'paramType':
+        return this.getTypeValues(node, property, expandTypes);
+      
+      case 'decorator':
+        return this.navigate(node, 'decorator').map(decorator => this.readNodeProperty(decorator, 'name'));
+      
+      case 'jsdoc':
+        return this.navigate(node, 'jsdoc').map(doc => (doc as JSDoc).getDescription().trim());
+      
+      case 'tag':
+        return Node.isJSDoc(node) ? node.getTags().map(tag => tag.getTagName()) : [];
+      
+      case 'extends':
+      case 'implements':
+      case 'inherits': {
+        const bases = this.getRelatedNodes(node, property.toUpperCase() as JoinRelation);
+        return [...new Set([...bases].map(base => this.readNodeProperty(base, 'name')))];
+      }
+      
+      case 'calls':
+      case 'calledBy': {
+        const graph = this.getCallGraph()[property === 'calls' ? 'callees' : 'callers'];
+        return [...new Set([...graph.get(node) ?? []].map(related => this.readNodeProperty(related, 'name')))];
+      }
+    }
+    
+    if (property.startsWith('tag(')) {
+      const name = property.slice('tag('.length, -1);
+      return Node.isJSDoc(node)
+        ? node.getTags().filter(tag => tag.getTagName() === name).map(tag => this.tagComment(tag))
+        : [];
+    }
+    return [this.readNodeProperty(node, property)];
+  }
+  
+  /**
+   * Resolve a type property through the type checker: the type text, or the name of the type's
+   * symbol (its alias if it has one) for `typeSymbol`
    */
-  private getPropertyValue(node: Node, property: string): string | null {
+  private getTypeValues(node: Node, property: string, expand: boolean): PropertyValue[] {
+    const types = this.getTypes(node, property);
+    const candidates = expand ? types.flatMap(type => this.expandType(type)) : types;
+    const values = candidates.map(type => {
+      if (property !== 'typeSymbol') {
+        return type.getText(node, TypeFormatFlags.UseAliasDefinedOutsideCurrentScope);
+      }
+      const name = (type.getAliasSymbol() ?? type.getSymbol())?.getName();
+      return name && !name.startsWith('__') ? name : null;
+    });
+    return expand ? [...new Set(values)] : values;
+  }
+  
+  private getTypes(node: Node, property: string): Type[] {
+    switch (property) {
+      case 'returnType':
+        if ('getReturnType' in node && typeof (node as any).getReturnType === 'function') {
+          return [(node as any).getReturnType()];
+        }
+        return [];
+      
+      case 'paramType':
+        if ('getParameters' in node && typeof (node as any).getParameters === 'function') {
+          return (node as any).getParameters().map((parameter: Node) => parameter.getType());
+        }
+        return [];
+      
+      default:
+        // Only declarations and expressions have a type of their own
+        return Node.isReferenceFindable(node) || Node.isExpression(node) ? [node.getType()] : [];
+    }
+  }
+  
+  /**
+   * A type followed by the members of a union and the element type of an array, recursively;
+   * booleans and enums are kept whole although the checker models them as unions
+   */
+  private expandType(type: Type): Type[] {
+    if (type.isUnion() && !type.isBoolean() && !type.isEnum()) {
+      return [type, ...type.getUnionTypes().flatMap(member => this.expandType(member))];
+    }
+    const element = type.getArrayElementType();
+    return element ? [type, ...this.expandType(element)] : [type];
+  }
+  
+  /**
+   * The comment of a JSDoc tag, after the parameter name for `@param` and `@property` tags
+   */
+  private tagComment(tag: JSDocTag): string {
+    const comment = tag.getCommentText()?.trim() ?? '';
+    if (Node.isJSDocParameterTag(tag) || Node.isJSDocPropertyTag(tag)) {
+      return `${tag.getName()} ${comment}`.trim();
+    }
+    return comment;
+  }
+  
+  /**
+   * Read a property of the node itself
+   */
+  private readNodeProperty(node: Node, property: string): PropertyValue {
     switch (property) {
       case 'name':
+        if (Node.isConstructorDeclaration(node)) {
+          return 'constructor';
+        }
+        if ('getNameNode' in node && typeof (node as any).getNameNode === 'function') {
+          // Quoted names, as in `declare module 'x'` or enum members like `'a-b'`, without their quotes
+          const nameNode = (node as any).getNameNode();
+          if (Node.isStringLiteral(nameNode)) {
+            return nameNode.getLiteralText();
+          }
+        }
         if ('getName' in node && typeof (node as any).getName === 'function') {
           return (node as any).getName() || null;
         }
@@ -171,8 +1007,9 @@ export class QueryExecutor {
       
       case 'modifier':
         if ('getModifiers' in node && typeof (node as any).getModifiers === 'function') {
-          const modifiers = (node as any).getModifiers();
-          return modifiers.map((m: Node) => m.getText()).join(' ');
+          // Decorators count as modifiers to the compiler; they are read with `decorator` instead
+          const modifiers: Node[] = (node as any).getModifiers().filter((m: Node) => !Node.isDecorator(m));
+          return modifiers.map(m => m.getText()).join(' ');
         }
         return null;
       
@@ -194,56 +1031,447 @@ export class QueryExecutor {
         }
         return node.getSourceFile()?.getExtension() || null;
       
+      case 'line':
+      case 'startLine':
+        return node.getStartLineNumber();
+      
+      case 'endLine':
+        return node.getEndLineNumber();
+      
+      case 'lineCount':
+        return node.getEndLineNumber() - node.getStartLineNumber() + 1;
+      
+      case 'paramCount':
+        if ('getParameters' in node && typeof (node as any).getParameters === 'function') {
+          return (node as any).getParameters().length;
+        }
+        return null;
+      
+      case 'memberCount':
+        if ('getMembers' in node && typeof (node as any).getMembers === 'function') {
+          return (node as any).getMembers().length;
+        }
+        return null;
+      
+      case 'typeParamCount':
+        if ('getTypeParameters' in node && typeof (node as any).getTypeParameters === 'function') {
+          return (node as any).getTypeParameters().length;
+        }
+        return null;
+      
+      case 'args':
+        if (Node.isDecorator(node)) {
+          return node.getArguments().map(argument => argument.getText()).join(', ');
+        }
+        return null;
+      
+      case 'hasJsDoc': {
+        const docs = this.getJsDocs(node);
+        return docs ? String(docs.length > 0) : null;
+      }
+      
+      case 'isExported':
+      case 'isDefaultExport':
+      case 'isAsync':
+      case 'isAbstract':
+      case 'isStatic':
+      case 'isReadonly':
+      case 'isAmbient':
+        return this.readFlag(node, property);
+      
+      case 'isOptional':
+        // Parameters are also optional with a default value; members only with a question token
+        return this.readFlag(node, 'isOptional') ?? this.readFlag(node, 'hasQuestionToken');
+      
+      case 'scope':
+        if ('getScope' in node && typeof (node as any).getScope === 'function') {
+          return (node as any).getScope() ?? null;
+        }
+        return null;
+      
       default:
         return null;
     }
   }
   
   /**
-   * Check if a string matches a LIKE pattern (SQL-style)
-   * Supports % (any characters) and _ (single character)
+   * Call a boolean ts-morph method such as `isExported`, which for variables lacking it is read from
+   * their variable statement, and return its result as `'true'` or `'false'`
+   */
+  private readFlag(node: Node, method: string): PropertyValue {
+    const target = method in node || !Node.isVariableDeclaration(node) ? node : node.getVariableStatement();
+    if (target && typeof (target as any)[method] === 'function') {
+      return String((target as any)[method]());
+    }
+    return null;
+  }
+  
+  /**
+   * Follow one property path step: `parent`, `sourceFile`, `ancestor(<NodeType>)`, or `decorator`
+   * and `jsdoc`, which can lead to several nodes
+   */
+  private navigate(node: Node, step: string): Node[] {
+    switch (step) {
+      case 'parent': {
+        const parent = node.getParent();
+        return parent ? [parent] : [];
+      }
+      
+      case 'sourceFile':
+        return [node.getSourceFile()];
+      
+      case 'decorator':
+        if ('getDecorators' in node && typeof (node as any).getDecorators === 'function') {
+          return (node as any).getDecorators();
+        }
+        return [];
+      
+      case 'jsdoc':
+        return this.getJsDocs(node) ?? [];
+      
+      default: {
+        const kind = syntaxKindOf(step.slice('ancestor('.length, -1) as Exclude<NodeType, '*'>);
+        let ancestor = node.getFirstAncestorByKind(kind);
+        // Within `namespace A.B.C` the nearest namespace is the one written, not its nested C
+        while (Node.isModuleDeclaration(ancestor) && Node.isModuleDeclaration(ancestor.getParent())) {
+          ancestor = ancestor.getParent();
+        }
+        return ancestor ? [ancestor] : [];
+      }
+    }
+  }
+  
+  /**
+   * The JSDoc comments of a node, read from the variable statement for variables, or undefined
+   * for nodes that cannot be documented
+   */
+  private getJsDocs(node: Node): JSDoc[] | undefined {
+    if (Node.isVariableDeclaration(node)) {
+      return node.getVariableStatement()?.getJsDocs() ?? [];
+    }
+    return Node.isJSDocable(node) ? node.getJsDocs() : undefined;
+  }
+  
+  /**
+   * Compile (and cache) the regular expression for a LIKE, GLOB or MATCHES condition
+   */
+  private getPattern(operator: QueryOperator, pattern: string, escape?: string): RegExp {
+    const key = `${operator}\u0000${escape ?? ''}\u0000${pattern}`;
+    let regex = this.patternCache.get(key);
+    if (!regex) {
+      switch (operator) {
+        case QueryOperator.GLOB:
+        case QueryOperator.NOT_GLOB:
+          regex = globToRegExp(pattern);
+          break;
+        
+        case QueryOperator.MATCHES:
+        case QueryOperator.NOT_MATCHES:
+          regex = parseRegexLiteral(pattern);
+          break;
+        
+        default:
+          regex = likeToRegExp(pattern, {
+            caseSensitive: operator === QueryOperator.LIKE_BINARY || operator === QueryOperator.NOT_LIKE_BINARY,
+            escape
+          });
+      }
+      this.patternCache.set(key, regex);
+    }
+    return regex;
+  }
+  
+  /**
+   * Get the classes and interfaces inheriting from each of the nodes, directly or not
+   */
+  private getSubtypes(nodes: Node[]): Map<Node, Node[]> {
+    const selected = new Set(nodes);
+    const subtypesMap = new Map<Node, Node[]>();
+    
+    for (const candidate of [...this.collectNodes('ClassDeclaration'), ...this.collectNodes('InterfaceDeclaration')]) {
+      for (const base of this.getRelatedNodes(candidate, 'INHERITS')) {
+        if (selected.has(base)) {
+          subtypesMap.set(base, [...subtypesMap.get(base) ?? [], candidate]);
+        }
+      }
+    }
+    
+    return subtypesMap;
+  }
+  
+  /**
+   * Get the base classes and interfaces of each of the nodes, directly or not
    */
-  private matchesPattern(value: string, pattern: string): boolean {
-    const regexPattern = pattern
-      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&') // Escape regex special chars
-      .replace(/%/g, '.*')  // % matches any characters
-      .replace(/_/g, '.');  // _ matches single character
+  private getSupertypes(nodes: Node[]): Map<Node, Node[]> {
+    const supertypesMap = new Map<Node, Node[]>();
     
-    const regex = new RegExp(`^${regexPattern}$`, 'i');
-    return regex.test(value);
+    for (const node of nodes) {
+      const supertypes = [...this.getRelatedNodes(node, 'INHERITS')];
+      if (supertypes.length > 0) {
+        supertypesMap.set(node, supertypes);
+      }
+    }
+    
+    return supertypesMap;
+  }
+  
+  /**
+   * Get the functions and methods calling (or called by) each of the nodes, following calls up to
+   * the given depth
+   */
+  private getCalls(nodes: Node[], direction: keyof CallGraph, depth: number): Map<Node, Node[]> {
+    const graph = this.getCallGraph()[direction];
+    return this.collectTransitive(nodes, node => graph.get(node) ?? [], depth);
   }
   
   /**
-   * Get all references for a list of nodes
+   * Get the declarations each of the nodes' signatures depends on, following their own signatures
+   * up to the given depth, or until no new ones are found
    */
-  private getReferences(nodes: Node[]): Map<Node, Node[]> {
-    const referencesMap = new Map<Node, Node[]>();
+  private getDependencies(nodes: Node[], depth?: number): Map<Node, Node[]> {
+    return this.collectTransitive(nodes, node => this.getDirectDependencies(node), depth);
+  }
+  
+  /**
+   * Map each node to the nodes reachable from it through `next`, breadth first and each once; the
+   * node itself is left out even when a cycle leads back to it
+   */
+  private collectTransitive(
+    nodes: Node[],
+    next: (node: Node) => Iterable<Node>,
+    depth = Infinity
+  ): Map<Node, Node[]> {
+    const reachableMap = new Map<Node, Node[]>();
     
     for (const node of nodes) {
-      const references: Node[] = [];
+      const found = new Set<Node>();
+      let level = [node];
+      for (let step = 0; step < depth && level.length > 0; step++) {
+        const nextLevel: Node[] = [];
+        for (const current of level) {
+          for (const related of next(current)) {
+            if (related !== node && !found.has(related)) {
+              found.add(related);
+              nextLevel.push(related);
+            }
+          }
+        }
+        level = nextLevel;
+      }
       
-      // Try to find references if the node has a name
-      if ('findReferences' in node && typeof (node as any).findReferences === 'function') {
-        const refEntries = (node as any).findReferences();
+      if (found.size > 0) {
+        reachableMap.set(node, [...found]);
+      }
+    }
+    
+    return reachableMap;
+  }
+  
+  /**
+   * Resolve (and cache) the interfaces, type aliases, enums and classes named by the type annotations,
+   * `typeof` queries, import types and heritage clauses of a node, leaving out function bodies; declarations in node_modules are
+   * only included with the includeNodeModules option
+   */
+  private getDirectDependencies(node: Node): Set<Node> {
+    let dependencies = this.context!.dependencies.get(node);
+    if (dependencies) {
+      return dependencies;
+    }
+    
+    // `typeof Audit` names its declaration like a type reference, `import('./model').Team` by its qualifier
+    const names = [
+      ...node.getDescendantsOfKind(SyntaxKind.TypeReference).map(reference => reference.getTypeName()),
+      ...node.getDescendantsOfKind(SyntaxKind.ExpressionWithTypeArguments).map(heritage => heritage.getExpression()),
+      ...node.getDescendantsOfKind(SyntaxKind.TypeQuery).map(query => query.getExprName()),
+      ...node.getDescendantsOfKind(SyntaxKind.ImportType).flatMap(type => type.getQualifier() ?? [])
+    ]
+      .filter(name => name.getFirstAncestor(ancestor => ancestor === node || Node.isBlock(ancestor)) === node)
+      .sort((a, b) => a.getPos() - b.getPos());
+    
+    dependencies = new Set();
+    for (const name of names) {
+      // `ns.User` and `Level.Low` resolve through their last name, an enum member to its enum
+      const last = Node.isQualifiedName(name) ? name.getRight()
+        : Node.isPropertyAccessExpression(name) ? name.getNameNode()
+        : name;
+      for (const declaration of this.resolveDeclarations(last)) {
+        const dependency = Node.isEnumMember(declaration) ? declaration.getParent() : declaration;
+        if (
+          DEPENDENCY_KINDS.has(dependency.getKind()) &&
+          dependency !== node &&
+          (this.options.includeNodeModules || !dependency.getSourceFile().isInNodeModules())
+        ) {
+          dependencies.add(dependency);
+        }
+      }
+    }
+    
+    this.context!.dependencies.set(node, dependencies);
+    return dependencies;
+  }
+  
+  /**
+   * Resolve (and cache) every call in the project to the declarations it calls, attributed to the
+   * function or method it is made in; calls outside any are skipped
+   */
+  private getCallGraph(): CallGraph {
+    if (this.context!.callGraph) {
+      return this.context!.callGraph;
+    }
+    
+    const graph: CallGraph = { callees: new Map(), callers: new Map() };
+    const link = (map: Map<Node, Set<Node>>, from: Node, to: Node) => {
+      map.set(from, (map.get(from) ?? new Set()).add(to));
+    };
+    
+    for (const sourceFile of this.project.getSourceFiles()) {
+      for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const caller = this.getCaller(call);
+        if (!caller) {
+          continue;
+        }
         
-        for (const refEntry of refEntries) {
-          for (const ref of refEntry.getReferences()) {
-            const refNode = ref.getNode();
-            if (refNode) {
-              references.push(refNode);
-            }
+        // Resolve `save()`, `this.repository.save()` and `users.save()` by the called name's symbol
+        const expression = call.getExpression();
+        const name = Node.isPropertyAccessExpression(expression) ? expression.getNameNode() : expression;
+        for (const callee of this.resolveDeclarations(name)) {
+          link(graph.callees, caller, callee);
+          link(graph.callers, callee, caller);
+        }
+      }
+    }
+    
+    this.context!.callGraph = graph;
+    return graph;
+  }
+  
+  /**
+   * Get the declaration a call is made in: the nearest function, method, constructor or accessor,
+   * or the variable or property an arrow function or function expression around it initializes;
+   * calls in decorators have none
+   */
+  private getCaller(call: Node): Node | undefined {
+    for (let ancestor = call.getParent(); ancestor; ancestor = ancestor.getParent()) {
+      // `@Get()` runs once when the class is defined, not when the member it decorates is called
+      if (Node.isDecorator(ancestor)) {
+        return undefined;
+      }
+      if (CALLER_KINDS.has(ancestor.getKind())) {
+        return ancestor;
+      }
+      
+      // `const save = () => ...` and `handle = function () { ... }` are written as the caller
+      const parent = ancestor.getParent();
+      if (
+        (Node.isArrowFunction(ancestor) || Node.isFunctionExpression(ancestor)) &&
+        (Node.isVariableDeclaration(parent) || Node.isPropertyDeclaration(parent)) &&
+        parent.getInitializer() === ancestor
+      ) {
+        return parent;
+      }
+    }
+    
+    return undefined;
+  }
+  
+  /**
+   * Get the references of each of the nodes, classified by how they use the node
+   */
+  private getReferences(nodes: Node[], filter?: ReferenceFilter): Map<Node, NodeReference[]> {
+    const referencesMap = new Map<Node, NodeReference[]>();
+    
+    for (const node of nodes) {
+      if (!('findReferences' in node) || typeof (node as any).findReferences !== 'function') {
+        continue;
+      }
+      
+      const references = new Map<Node, NodeReference>();
+      for (const referencedSymbol of (node as any).findReferences() as ReferencedSymbol[]) {
+        for (const entry of referencedSymbol.getReferences()) {
+          const refNode = entry.getNode();
+          if (references.has(refNode)) {
+            continue;
+          }
+          
+          const sourceFile = refNode.getSourceFile();
+          const { line, column } = sourceFile.getLineAndColumnAtPos(refNode.getStart());
+          const reference: NodeReference = {
+            kind: this.classifyReference(refNode, entry),
+            node: refNode,
+            path: sourceFile.getFilePath(),
+            line,
+            column
+          };
+          if (this.matchesReferenceFilter(reference, filter)) {
+            references.set(refNode, reference);
           }
         }
-      } else if ('findReferencesAsNodes' in node && typeof (node as any).findReferencesAsNodes === 'function') {
-        const refNodes = (node as any).findReferencesAsNodes();
-        references.push(...refNodes);
       }
       
-      if (references.length > 0) {
-        referencesMap.set(node, references);
+      // Sort by file and position rather than by the symbol (local or alias) each was found for
+      if (references.size > 0) {
+        referencesMap.set(node, [...references.values()].sort((a, b) =>
+          a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column
+        ));
       }
     }
     
     return referencesMap;
   }
+  
+  /**
+   * Tell how a reference uses the referenced node, from where it appears
+   */
+  private classifyReference(node: Node, entry: ReferencedSymbolEntry): ReferenceKind {
+    const parent = node.getParentOrThrow();
+    if (node.getFirstAncestor(ancestor => Node.isImportDeclaration(ancestor) || Node.isImportEqualsDeclaration(ancestor))) {
+      return 'import';
+    }
+    if (Node.isExportSpecifier(parent) || Node.isExportAssignment(parent)) {
+      return 'export';
+    }
+    if (entry.isDefinition()) {
+      return 'declaration';
+    }
+    
+    // Step out of qualified names such as `ns.User` and `store.save` to what they are part of
+    const qualified = (Node.isQualifiedName(parent) && parent.getRight() === node) ||
+      (Node.isPropertyAccessExpression(parent) && parent.getNameNode() === node);
+    const outer = qualified ? parent : node;
+    const container = outer.getParent();
+    
+    if (
+      Node.isTypeReference(container) ||
+      Node.isTypeQuery(container) ||
+      Node.isExpressionWithTypeArguments(container)
+    ) {
+      return 'type-reference';
+    }
+    if ((Node.isCallExpression(container) || Node.isNewExpression(container)) && container.getExpression() === outer) {
+      return 'call';
+    }
+    return entry.isWriteAccess() ? 'write' : 'read';
+  }
+  
+  /**
+   * Check a reference against the EXCLUDING DECLARATIONS and WHERE parts of WITH REFERENCES
+   */
+  private matchesReferenceFilter(reference: NodeReference, filter?: ReferenceFilter): boolean {
+    if (filter?.excludeDeclarations && reference.kind === 'declaration') {
+      return false;
+    }
+    if (!filter?.where) {
+      return true;
+    }
+    
+    // `kind` is the reference's kind; everything else is read from the referencing identifier
+    const binding: Binding = { [DEFAULT_SOURCE]: reference.node };
+    return this.evaluate(filter.where, condition => {
+      if (condition.type === 'condition' && condition.property === 'kind') {
+        const expected = this.resolveConditionValue(condition.value, binding, undefined);
+        return this.matchesValue(reference.kind, condition.operator, expected, condition.escape);
+      }
+      return this.matchesWhereConditions(binding, condition);
+    });
+  }
 }
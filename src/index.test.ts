@@ -1,5 +1,5 @@
-import { Project, InterfaceDeclaration, ClassDeclaration, FunctionDeclaration, TypeAliasDeclaration, SourceFile } from 'ts-morph';
-import { TsMorphSelector } from '../src/index';
+import { Project, Node, ArrowFunction, InterfaceDeclaration, ClassDeclaration, FunctionDeclaration, TypeAliasDeclaration, SourceFile } from 'ts-morph';
+import { TsMorphSelector, QueryParameterError, QueryResult, NodeReference } from '../src/index';
 
 describe('TsMorphSelector', () => {
   let project: Project;
@@ -93,12 +93,177 @@ describe('TsMorphSelector', () => {
       expect(result.nodes[0].getName()).toBe('UserService');
     });
     
+    it('should combine conditions with OR, NOT and parentheses', () => {
+      const result = selector.query<FunctionDeclaration>(
+        "SELECT * FROM FunctionDeclaration WHERE (name LIKE 'get%' OR name LIKE 'find%') AND NOT name LIKE '%Id'"
+      );
+      expect(result.nodes).toHaveLength(0);
+      
+      const either = selector.query<ClassDeclaration>(
+        "SELECT * FROM ClassDeclaration WHERE name = 'UserService' OR name = 'TestService'"
+      );
+      expect(either.nodes).toHaveLength(2);
+      
+      const negated = selector.query<ClassDeclaration>("SELECT * FROM ClassDeclaration WHERE NOT (name LIKE 'Test%')");
+      expect(negated.nodes.map(node => node.getName())).toEqual(['UserService']);
+    });
+    
+    it('should match regular expressions and case-sensitive patterns', () => {
+      project.createSourceFile('naming.ts', `
+        export function __internal() {}
+        export function a_b() {}
+        export function aXb() {}
+        export function GetThing() {}
+      `);
+      const names = (where: string) =>
+        selector.query<FunctionDeclaration>(`SELECT * FROM FunctionDeclaration WHERE ${where}`).nodes.map(node => node.getName()).sort();
+      
+      expect(names("name LIKE 'get%'")).toEqual(['GetThing', 'getUserById']);
+      expect(names("name LIKE BINARY 'get%'")).toEqual(['getUserById']);
+      expect(names("name GLOB 'Get*'")).toEqual(['GetThing']);
+      expect(names("name GLOB '[ag]?*'")).toEqual(['aXb', 'a_b', 'getUserById']);
+      expect(names("name GLOB '[^]_a-z]*'")).toEqual(['GetThing']);
+      expect(names("name GLOB '[^]*'")).toEqual([]);
+      expect(names("name MATCHES '/^(get|test)[A-Z]/'")).toEqual(['getUserById', 'testFunction']);
+      expect(names("name MATCHES '/^get/i'")).toEqual(['GetThing', 'getUserById']);
+      expect(names("name LIKE 'a_b'")).toEqual(['aXb', 'a_b']);
+      expect(names("name LIKE 'a!_b' ESCAPE '!'")).toEqual(['a_b']);
+      expect(names("name LIKE '!_!_%' ESCAPE '!'")).toEqual(['__internal']);
+      expect(names("name NOT MATCHES '[A-Z]'")).toEqual(['__internal', 'a_b']);
+    });
+    
+    it('should filter on numeric properties numerically', () => {
+      project.createSourceFile('sizes.ts', `
+        export function many<A, B>(a: number, b: number, c: number, d: number, e: number) {
+          return a;
+        }
+        export class Big {
+          a = 1;
+          b = 2;
+          c(): void {}
+        }
+        export enum Color { Red, Green }
+      `);
+      const names = (query: string) =>
+        selector.query(query).nodes.map(node => (node as FunctionDeclaration).getName()).sort();
+      
+      expect(names('SELECT * FROM FunctionDeclaration WHERE paramCount > 4')).toEqual(['many']);
+      expect(names('SELECT * FROM FunctionDeclaration WHERE typeParamCount = 2')).toEqual(['many']);
+      expect(names('SELECT * FROM FunctionDeclaration WHERE lineCount BETWEEN 3 AND 10')).toEqual(['getUserById', 'many']);
+      expect(names('SELECT * FROM ClassDeclaration WHERE memberCount >= 3')).toEqual(['Big']);
+      expect(names('SELECT * FROM EnumDeclaration WHERE memberCount NOT BETWEEN 3 AND 9')).toEqual(['Color']);
+      // 12 > 9 numerically even though '12' < '9' as strings
+      expect(names('SELECT * FROM ClassDeclaration WHERE startLine > 9')).toEqual(['TestService', 'UserService']);
+      
+      const rows = selector.query("SELECT name, startLine, endLine, lineCount FROM FunctionDeclaration WHERE name = 'many'").rows;
+      expect(rows).toEqual([{ name: 'many', startLine: 2, endLine: 4, lineCount: 3 }]);
+    });
+    
+    it('should follow parent, ancestor and sourceFile paths', () => {
+      project.createSourceFile('models/account.ts', `
+        export interface Account {
+          id: number;
+        }
+        export class AccountStore {
+          load() {}
+        }
+      `);
+      
+      const methods = selector.query("SELECT name FROM MethodDeclaration WHERE parent.name = 'UserService'");
+      expect(methods.rows).toEqual([{ name: 'getUser' }]);
+      
+      const interfaceProperties = selector.query(
+        "SELECT parent.name, name FROM PropertyDeclaration WHERE parent.kind = 'InterfaceDeclaration' AND sourceFile.path LIKE '%models%'"
+      );
+      expect(interfaceProperties.rows).toEqual([{ 'parent.name': 'Account', name: 'id' }]);
+      
+      const owned = selector.query(
+        "SELECT name, ancestor(ClassDeclaration).name AS owner FROM MethodDeclaration WHERE ancestor(SourceFile).baseName = 'account.ts'"
+      );
+      expect(owned.rows).toEqual([{ name: 'load', owner: 'AccountStore' }]);
+      
+      const missing = selector.query("SELECT name, ancestor(ClassDeclaration).name AS owner FROM FunctionDeclaration WHERE name = 'getUserById'");
+      expect(missing.rows).toEqual([{ name: 'getUserById', owner: null }]);
+    });
+    
+    it('should match values containing quotes, commas and parentheses', () => {
+      project.createSourceFile('quotes.ts', `
+        export const greeting = "it's (a, b)";
+      `);
+      const result = selector.query(`SELECT name FROM VariableDeclaration WHERE text LIKE '%"it''s (a, b)"'`);
+      expect(result.rows).toEqual([{ name: 'greeting' }]);
+    });
+    
+    it('should bind positional and named parameters', () => {
+      const positional = selector.query<ClassDeclaration>('SELECT * FROM ClassDeclaration WHERE name = ? OR name = ?', ['TestService', "it's"]);
+      expect(positional.nodes.map(node => node.getName())).toEqual(['TestService']);
+      
+      const named = selector.query('SELECT name FROM FunctionDeclaration WHERE name LIKE :prefix AND name NOT IN :excluded', {
+        prefix: '%',
+        excluded: ['testFunction']
+      });
+      expect(named.rows).toEqual([{ name: 'getUserById' }]);
+      
+      const subquery = selector.query(
+        'SELECT name FROM ClassDeclaration WHERE path IN (SELECT path FROM InterfaceDeclaration WHERE name = ?) ORDER BY name',
+        ['User']
+      );
+      expect(subquery.rows).toEqual([{ name: 'TestService' }, { name: 'UserService' }]);
+    });
+    
+    it('should reject missing, extra and mistyped parameters', () => {
+      expect(() => selector.query('SELECT * FROM ClassDeclaration WHERE name = :name')).toThrow(QueryParameterError);
+      expect(() => selector.query('SELECT * FROM ClassDeclaration WHERE name = :name', { other: 'x' }))
+        .toThrow(/Missing value for parameter :name/);
+      expect(() => selector.query('SELECT * FROM ClassDeclaration WHERE name = ?', ['a', 'b']))
+        .toThrow(/1 positional parameter but 2 values/);
+      expect(() => selector.query('SELECT * FROM ClassDeclaration WHERE name = ?', [['a']]))
+        .toThrow(/must be a string or number/);
+      expect(() => selector.query('SELECT * FROM ClassDeclaration WHERE name MATCHES ?', ['/(/']))
+        .toThrow(/Invalid regular expression for parameter \?1/);
+    });
+    
     it('should handle WITH REFERENCES', () => {
       const result = selector.query<InterfaceDeclaration>("SELECT * FROM InterfaceDeclaration WHERE name = 'User' WITH REFERENCES");
       expect(result.nodes).toHaveLength(1);
       expect(result.references).toBeDefined();
     });
     
+    it('should project columns into plain rows', () => {
+      const result = selector.query("SELECT name, baseName AS file, line FROM InterfaceDeclaration WHERE name = 'User'");
+      expect(result.nodes).toHaveLength(1);
+      expect(result.rows).toEqual([{ name: 'User', file: 'test.ts', line: 2 }]);
+      expect(JSON.parse(JSON.stringify(result.rows))).toEqual(result.rows);
+    });
+    
+    it('should not build rows for SELECT *', () => {
+      const result = selector.query('SELECT * FROM InterfaceDeclaration');
+      expect(result.rows).toBeUndefined();
+    });
+    
+    it('should order results by a property', () => {
+      const result = selector.query<ClassDeclaration>('SELECT * FROM ClassDeclaration ORDER BY name');
+      expect(result.nodes.map(node => node.getName())).toEqual(['TestService', 'UserService']);
+      
+      const descending = selector.query('SELECT name FROM FunctionDeclaration ORDER BY line DESC');
+      expect(descending.rows).toEqual([{ name: 'testFunction' }, { name: 'getUserById' }]);
+    });
+    
+    it('should page results with LIMIT and OFFSET', () => {
+      const page = selector.query<ClassDeclaration>('SELECT * FROM ClassDeclaration ORDER BY name LIMIT 1 OFFSET 1');
+      expect(page.nodes.map(node => node.getName())).toEqual(['UserService']);
+      
+      const rest = selector.query('SELECT * FROM InterfaceDeclaration OFFSET 1');
+      expect(rest.nodes).toHaveLength(1);
+    });
+    
+    it('should compute references only for the limited page', () => {
+      const result = selector.query('SELECT * FROM InterfaceDeclaration ORDER BY name DESC LIMIT 1 WITH REFERENCES');
+      expect(result.nodes).toHaveLength(1);
+      expect(result.references!.size).toBe(1);
+      expect(result.references!.has(result.nodes[0])).toBe(true);
+    });
+    
     it('should respect maxResults option', () => {
       const limitedSelector = new TsMorphSelector(project, { maxResults: 1 });
       const result = limitedSelector.query<InterfaceDeclaration>('SELECT * FROM InterfaceDeclaration');
@@ -160,6 +325,35 @@ describe('TsMorphSelector', () => {
       expect(result.nodes.every(node => node.getBaseName().endsWith('.model.ts'))).toBe(true);
     });
     
+    it('should scope a query to files selected by a subquery', () => {
+      const result = selector.query<ClassDeclaration>(
+        "SELECT * FROM ClassDeclaration WHERE path IN (SELECT path FROM SourceFile WHERE baseName LIKE '%.service.ts') ORDER BY name"
+      );
+      expect(result.nodes.map(node => node.getName())).toEqual(['ProductService', 'UserService']);
+      expect(result.nodes.every(node => node.getSourceFile().getBaseName().endsWith('.service.ts'))).toBe(true);
+    });
+    
+    it('should evaluate correlated EXISTS subqueries per outer node', () => {
+      const withInterfaces = selector.query<SourceFile>(
+        'SELECT * FROM SourceFile WHERE EXISTS (SELECT * FROM InterfaceDeclaration WHERE path = outer.path)'
+      );
+      expect(withInterfaces.nodes.map(node => node.getBaseName()).sort()).toEqual(['test.ts', 'user.model.ts']);
+      
+      const withoutInterfaces = selector.query<SourceFile>(
+        'SELECT * FROM SourceFile WHERE NOT EXISTS (SELECT * FROM InterfaceDeclaration WHERE path = outer.path)'
+      );
+      expect(withoutInterfaces.nodes.map(node => node.getBaseName()).sort()).toEqual(['product.service.ts', 'user.service.ts']);
+    });
+    
+    it('should not cap subqueries with maxResults', () => {
+      const limitedSelector = new TsMorphSelector(project, { maxResults: 2 });
+      const result = limitedSelector.query<ClassDeclaration>(
+        'SELECT * FROM ClassDeclaration WHERE name IN (SELECT name FROM ClassDeclaration ORDER BY name)'
+      );
+      // A capped subquery would only have yielded ProductService and TestService
+      expect(result.nodes.map(node => node.getName())).toEqual(['UserService', 'TestService']);
+    });
+    
     it('should use IN operator with baseName', () => {
       const result = selector.query<SourceFile>("SELECT * FROM SourceFile WHERE baseName IN ('test.ts', 'user.model.ts')");
       expect(result.nodes.length).toBeGreaterThanOrEqual(1);
@@ -169,6 +363,793 @@ describe('TsMorphSelector', () => {
     });
   });
   
+  describe('GROUP BY queries', () => {
+    beforeEach(() => {
+      project.createSourceFile('services/user.service.ts', `
+        export function a() {}
+        export function b() {}
+        export function c() {}
+      `);
+    });
+    
+    it('should count nodes per group', () => {
+      const result = selector.query('SELECT baseName, COUNT(*) AS functions FROM FunctionDeclaration GROUP BY baseName ORDER BY baseName');
+      expect(result.rows).toEqual([
+        { baseName: 'test.ts', functions: 2 },
+        { baseName: 'user.service.ts', functions: 3 }
+      ]);
+      expect(result.nodes).toHaveLength(5);
+    });
+    
+    it('should compute MIN, MAX, SUM and AVG over numeric properties', () => {
+      const result = selector.query(
+        "SELECT MIN(line), MAX(line) AS last, SUM(line), AVG(line) FROM FunctionDeclaration WHERE baseName = 'user.service.ts'"
+      );
+      expect(result.rows).toEqual([{ 'MIN(line)': 2, last: 4, 'SUM(line)': 9, 'AVG(line)': 3 }]);
+    });
+    
+    it('should filter groups with HAVING and return only their nodes', () => {
+      const result = selector.query('SELECT baseName FROM FunctionDeclaration GROUP BY baseName HAVING COUNT(*) = 3');
+      expect(result.rows).toEqual([{ baseName: 'user.service.ts' }]);
+      expect(result.nodes).toHaveLength(3);
+    });
+    
+    it('should return a single row for aggregates without GROUP BY even when nothing matches', () => {
+      const result = selector.query("SELECT COUNT(*) AS total, MAX(line) FROM ClassDeclaration WHERE name = 'Missing'");
+      expect(result.rows).toEqual([{ total: 0, 'MAX(line)': null }]);
+      expect(result.nodes).toHaveLength(0);
+    });
+  });
+  
+  describe('JOIN queries', () => {
+    beforeEach(() => {
+      project.createSourceFile('repositories.ts', `
+        import { User as Account } from './test';
+        
+        export interface Repository {}
+        export interface Disposable extends Repository {}
+        export class BaseRepository {}
+        export class AccountRepository extends BaseRepository implements Repository, Disposable {
+          find(id: number): Account {
+            const fallback: Account = {} as Account;
+            return fallback;
+          }
+        }
+      `);
+    });
+    
+    it('should join classes to the interfaces they implement', () => {
+      const result = selector.query<ClassDeclaration>(
+        'SELECT c.name, i.name FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c IMPLEMENTS i'
+      );
+      expect(result.rows).toEqual([
+        { 'c.name': 'AccountRepository', 'i.name': 'Repository' },
+        { 'c.name': 'AccountRepository', 'i.name': 'Disposable' }
+      ]);
+      expect(result.tuples).toHaveLength(2);
+      expect((result.tuples![1].i as InterfaceDeclaration).getName()).toBe('Disposable');
+      expect(result.nodes.map(node => node.getName())).toEqual(['AccountRepository']);
+    });
+    
+    it('should keep unmatched rows with null nodes in LEFT JOIN', () => {
+      const result = selector.query(
+        "SELECT c.name, b.name AS base FROM ClassDeclaration c LEFT JOIN ClassDeclaration b ON c EXTENDS b WHERE c.name LIKE '%Repository' ORDER BY c.name"
+      );
+      expect(result.rows).toEqual([
+        { 'c.name': 'AccountRepository', base: 'BaseRepository' },
+        { 'c.name': 'BaseRepository', base: null }
+      ]);
+      expect(result.tuples![1].b).toBeNull();
+    });
+    
+    it('should relate declarations by containment and by types used in signatures', () => {
+      const methods = selector.query(
+        "SELECT m.name FROM ClassDeclaration c JOIN MethodDeclaration m ON c CONTAINS m WHERE c.name = 'UserService'"
+      );
+      expect(methods.rows).toEqual([{ 'm.name': 'getUser' }]);
+      
+      // Follows the aliased import, and ignores types used only inside the body
+      const uses = selector.query(
+        'SELECT f.name, i.name FROM MethodDeclaration f JOIN InterfaceDeclaration i ON f USES i ORDER BY f.name'
+      );
+      expect(uses.rows).toEqual([
+        { 'f.name': 'find', 'i.name': 'User' },
+        { 'f.name': 'getUser', 'i.name': 'User' }
+      ]);
+    });
+    
+    it('should compare properties across sources', () => {
+      const result = selector.query(
+        "SELECT i.name FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c.path = i.path WHERE c.name = 'TestService'"
+      );
+      expect(result.rows).toEqual([{ 'i.name': 'User' }, { 'i.name': 'Product' }]);
+    });
+  });
+  
+  describe('decorators', () => {
+    beforeEach(() => {
+      project.createSourceFile('users.controller.ts', `
+        @Controller('users')
+        export class UsersController {
+          @Input() filter: string;
+          
+          @Get('/users')
+          @Roles('admin', 'owner')
+          list(@Query('page') page: number) {}
+          
+          @Post()
+          create(@Body() body: object) {}
+          
+          helper() {}
+        }
+      `);
+    });
+    
+    it('should match methods by decorator name and arguments', () => {
+      const result = selector.query(
+        "SELECT name FROM MethodDeclaration WHERE decorator = 'Get' AND decorator.args LIKE '%users%'"
+      );
+      expect(result.rows).toEqual([{ name: 'list' }]);
+      
+      const decorated = selector.query("SELECT name FROM MethodDeclaration WHERE decorator IN ('Get', 'Post') ORDER BY name");
+      expect(decorated.rows).toEqual([{ name: 'create' }, { name: 'list' }]);
+    });
+    
+    it('should match when any decorator matches and list all of them in results', () => {
+      const result = selector.query("SELECT name, decorator, decorator.args FROM MethodDeclaration WHERE decorator = 'Roles'");
+      expect(result.rows).toEqual([
+        { name: 'list', decorator: 'Get, Roles', 'decorator.args': "'/users', 'admin', 'owner'" }
+      ]);
+      
+      const classes = selector.query("SELECT name FROM ClassDeclaration WHERE decorator = 'Controller'");
+      expect(classes.rows).toEqual([{ name: 'UsersController' }]);
+      const properties = selector.query("SELECT name FROM PropertyDeclaration WHERE decorator = 'Input'");
+      expect(properties.rows).toEqual([{ name: 'filter' }]);
+    });
+    
+    it('should match negated operators only when no decorator matches', () => {
+      const names = (condition: string) => selector
+        .query(`SELECT name FROM MethodDeclaration WHERE path LIKE '%users.controller.ts' AND ${condition} ORDER BY name`)
+        .rows!.map(row => row.name);
+      
+      expect(names("decorator != 'Get'")).toEqual(['create', 'helper']);
+      expect(names("decorator NOT IN ('Roles', 'Post')")).toEqual(['helper']);
+      expect(names("decorator NOT LIKE 'R%'")).toEqual(names("NOT decorator LIKE 'R%'"));
+    });
+    
+    it('should select decorators as nodes, including parameter decorators', () => {
+      const result = selector.query(
+        "SELECT name, args, parent.name FROM Decorator WHERE parent.kind = 'Parameter' ORDER BY name"
+      );
+      expect(result.rows).toEqual([
+        { name: 'Body', args: '', 'parent.name': 'body' },
+        { name: 'Query', args: "'page'", 'parent.name': 'page' }
+      ]);
+    });
+  });
+  
+  describe('JSDoc', () => {
+    beforeEach(() => {
+      project.createSourceFile('api.ts', `
+        /**
+         * Finds an account.
+         * @param id - the account id
+         * @deprecated use findAccount
+         */
+        export function find(id: number) {}
+        
+        /**
+         * @internal
+         */
+        export function reset() {}
+        
+        export function undocumented() {}
+        
+        /** Default page size */
+        export const PAGE_SIZE = 20;
+        
+        export class Api {
+          /** @deprecated */
+          legacy() {}
+        }
+      `);
+    });
+    
+    it('should select deprecated, internal and undocumented APIs', () => {
+      const names = (query: string) => selector.query(query).rows!.map(row => row.name);
+      
+      expect(names("SELECT name FROM FunctionDeclaration WHERE path LIKE '%api.ts' AND hasJsDoc = 'false'"))
+        .toEqual(['undocumented']);
+      expect(names("SELECT name FROM * WHERE jsdoc.tag = 'deprecated' ORDER BY name")).toEqual(['find', 'legacy']);
+      expect(names("SELECT name FROM FunctionDeclaration WHERE jsdoc.tag = 'internal'")).toEqual(['reset']);
+      expect(names("SELECT name FROM VariableDeclaration WHERE jsdoc LIKE '%page size%'")).toEqual(['PAGE_SIZE']);
+    });
+    
+    it('should project descriptions and tag comments', () => {
+      const result = selector.query(
+        "SELECT name, jsdoc, jsdoc.tag, jsdoc.tag(param), jsdoc.tag(deprecated) FROM * WHERE jsdoc.tag(deprecated) LIKE '%' ORDER BY name"
+      );
+      expect(result.rows).toEqual([
+        {
+          name: 'find',
+          jsdoc: 'Finds an account.',
+          'jsdoc.tag': 'param, deprecated',
+          'jsdoc.tag(param)': 'id - the account id',
+          'jsdoc.tag(deprecated)': 'use findAccount'
+        },
+        { name: 'legacy', jsdoc: '', 'jsdoc.tag': 'deprecated', 'jsdoc.tag(param)': null, 'jsdoc.tag(deprecated)': '' }
+      ]);
+    });
+  });
+  
+  describe('type checker properties', () => {
+    beforeEach(() => {
+      project.createSourceFile('accounts.ts', `
+        import { User as Account } from './test';
+        
+        export async function loadAll(ids: string[]): Promise<Account[]> { return []; }
+        export function rename(user: Account | string, name: string): void {}
+        export function count(): number { return 0; }
+        export let cache: Map<string, Account>;
+      `);
+    });
+    
+    it('should match return and parameter types, including union members and array elements', () => {
+      const names = (condition: string) => selector
+        .query(`SELECT name FROM FunctionDeclaration WHERE path LIKE '%accounts.ts' AND ${condition} ORDER BY name`)
+        .rows!.map(row => row.name);
+      
+      expect(names("returnType LIKE 'Promise<%>'")).toEqual(['loadAll']);
+      expect(names("paramType = 'Account'")).toEqual(['rename']);
+      expect(names("paramType = 'string'")).toEqual(['loadAll', 'rename']);
+      expect(names("returnType = 'number'")).toEqual(['count']);
+    });
+    
+    it('should project type texts and resolve type symbols through import aliases', () => {
+      const result = selector.query(
+        "SELECT name, returnType, paramType FROM FunctionDeclaration WHERE path LIKE '%accounts.ts' AND name != 'count'"
+      );
+      expect(result.rows).toEqual([
+        { name: 'loadAll', returnType: 'Promise<Account[]>', paramType: 'string[]' },
+        { name: 'rename', returnType: 'void', paramType: 'string | Account, string' }
+      ]);
+      
+      const variables = selector.query("SELECT name, type, typeSymbol FROM VariableDeclaration WHERE name = 'cache'");
+      expect(variables.rows).toEqual([{ name: 'cache', type: 'Map<string, Account>', typeSymbol: 'Map' }]);
+      
+      const users = selector.query("SELECT name FROM * WHERE typeSymbol = 'User' AND kind = 'Parameter'");
+      expect(users.rows).toEqual([{ name: 'user' }]);
+    });
+  });
+  
+  describe('boolean flags', () => {
+    beforeEach(() => {
+      project.createSourceFile('flags.ts', `
+        function helper() {}
+        export async function load() {}
+        export default function main() {}
+        export { helper };
+        declare const VERSION: string;
+        
+        export abstract class Store {
+          static instances = 0;
+          private readonly id = 1;
+          protected cache?: string;
+          abstract save(force?: boolean, retries = 1): void;
+          async flush() {}
+        }
+      `);
+    });
+    
+    it('should match exported, default and ambient declarations', () => {
+      const names = (query: string) => selector.query(query).rows!.map(row => row.name);
+      
+      expect(names("SELECT name FROM FunctionDeclaration WHERE path LIKE '%flags.ts' AND isExported IS TRUE ORDER BY name"))
+        .toEqual(['helper', 'load', 'main']);
+      expect(names("SELECT name FROM FunctionDeclaration WHERE isDefaultExport IS TRUE")).toEqual(['main']);
+      expect(names("SELECT name FROM FunctionDeclaration WHERE isAsync IS TRUE")).toEqual(['load']);
+      expect(names("SELECT name FROM VariableDeclaration WHERE isAmbient IS TRUE")).toEqual(['VERSION']);
+      expect(names("SELECT name FROM ClassDeclaration WHERE isAbstract IS TRUE")).toEqual(['Store']);
+    });
+    
+    it('should read member flags and scope', () => {
+      const result = selector.query(
+        "SELECT name, scope, isStatic, isReadonly, isOptional FROM PropertyDeclaration WHERE parent.name = 'Store'"
+      );
+      expect(result.rows).toEqual([
+        { name: 'instances', scope: 'public', isStatic: 'true', isReadonly: 'false', isOptional: 'false' },
+        { name: 'id', scope: 'private', isStatic: 'false', isReadonly: 'true', isOptional: 'false' },
+        { name: 'cache', scope: 'protected', isStatic: 'false', isReadonly: 'false', isOptional: 'true' }
+      ]);
+      
+      const methods = selector.query("SELECT name FROM MethodDeclaration WHERE parent.name = 'Store' AND isAbstract IS NOT TRUE");
+      expect(methods.rows).toEqual([{ name: 'flush' }]);
+      const optional = selector.query("SELECT name FROM * WHERE kind = 'Parameter' AND isOptional IS TRUE AND ancestor(ClassDeclaration).name = 'Store'");
+      expect(optional.rows).toEqual([{ name: 'force' }, { name: 'retries' }]);
+    });
+  });
+  
+  describe('any SyntaxKind', () => {
+    beforeEach(() => {
+      project.createSourceFile('nested.ts', `
+        export namespace Geometry {
+          export function area(size: number) { return size * size; }
+        }
+        declare module 'plugin' {
+          class PluginHost {}
+        }
+        export const Widget = class {
+          render() { return [1, 2].map(item => item * 2); }
+        };
+      `);
+    });
+    
+    it('should find declarations nested in namespaces and modules', () => {
+      const functions = selector.query("SELECT name FROM FunctionDeclaration WHERE path LIKE '%nested.ts'");
+      expect(functions.rows).toEqual([{ name: 'area' }]);
+      const classes = selector.query("SELECT name FROM ClassDeclaration WHERE path LIKE '%nested.ts'");
+      expect(classes.rows).toEqual([{ name: 'PluginHost' }]);
+      const methods = selector.query("SELECT name, ancestor(VariableDeclaration).name AS owner FROM MethodDeclaration WHERE path LIKE '%nested.ts'");
+      expect(methods.rows).toEqual([{ name: 'render', owner: 'Widget' }]);
+    });
+    
+    it('should select any SyntaxKind', () => {
+      const arrows = selector.query<ArrowFunction>('SELECT * FROM ArrowFunction');
+      expect(arrows.nodes.map(node => node.getText())).toEqual(['item => item * 2']);
+      
+      const calls = selector.query("SELECT text FROM CallExpression WHERE path LIKE '%nested.ts'");
+      expect(calls.rows).toEqual([{ text: '[1, 2].map(item => item * 2)' }]);
+      expect(selector.query('SELECT * FROM ClassExpression').nodes).toHaveLength(1);
+      expect(selector.from('ModuleDeclaration').where('name').equals('Geometry').run().nodes[0].getName()).toBe('Geometry');
+    });
+    
+    it('should reject names that are not SyntaxKinds', () => {
+      const result = selector.validate('SELECT * FROM ArowFunction');
+      expect(result.valid).toBe(false);
+      expect(result.syntaxError!.suggestions).toContain('ArrowFunction');
+      expect(selector.validate('SELECT * FROM FirstStatement').valid).toBe(false);
+    });
+  });
+  
+  describe('member node types', () => {
+    beforeEach(() => {
+      project.createSourceFile('members.ts', `
+        export declare namespace Plugins {}
+        declare module 'plugin-host' {}
+        
+        export interface Formatter {
+          (value: string): string;
+          format?(value: string, width: number): string;
+        }
+        
+        export enum Level { Low = 1, 'very-high' }
+        
+        export class Settings {
+          constructor(private readonly store: Formatter, @Inject() level: Level) {}
+          static get size(): number { return 1; }
+          protected set size(value: number) {}
+        }
+      `);
+    });
+    
+    it('should select signatures, accessors and constructors', () => {
+      const rows = (query: string) => selector.query(query).rows;
+      
+      expect(rows("SELECT name, paramCount, isOptional FROM MethodSignature WHERE parent.name = 'Formatter'"))
+        .toEqual([{ name: 'format', paramCount: 2, isOptional: 'true' }]);
+      expect(rows("SELECT returnType, parent.name FROM CallSignature WHERE path LIKE '%members.ts'"))
+        .toEqual([{ returnType: 'string', 'parent.name': 'Formatter' }]);
+      expect(rows("SELECT name, kind, modifier FROM GetAccessorDeclaration WHERE path LIKE '%members.ts'"))
+        .toEqual([{ name: 'size', kind: 'GetAccessor', modifier: 'static' }]);
+      expect(rows("SELECT name, scope FROM SetAccessorDeclaration WHERE path LIKE '%members.ts'"))
+        .toEqual([{ name: 'size', scope: 'protected' }]);
+      expect(rows("SELECT name, paramCount, parent.name FROM ConstructorDeclaration WHERE path LIKE '%members.ts'"))
+        .toEqual([{ name: 'constructor', paramCount: 2, 'parent.name': 'Settings' }]);
+    });
+    
+    it('should select parameters, enum members and namespaces', () => {
+      const rows = (query: string) => selector.query(query).rows;
+      
+      expect(rows("SELECT name, modifier, decorator FROM Parameter WHERE ancestor(ConstructorDeclaration).parent.name = 'Settings'"))
+        .toEqual([
+          { name: 'store', modifier: 'private readonly', decorator: null },
+          { name: 'level', modifier: '', decorator: 'Inject' }
+        ]);
+      expect(rows("SELECT name FROM EnumMember WHERE parent.name = 'Level'")).toEqual([{ name: 'Low' }, { name: 'very-high' }]);
+      expect(rows("SELECT name, modifier FROM ModuleDeclaration WHERE path LIKE '%members.ts'")).toEqual([
+        { name: 'Plugins', modifier: 'export declare' },
+        { name: 'plugin-host', modifier: 'declare' }
+      ]);
+    });
+    
+    it('should select a dotted namespace once', () => {
+      project.createSourceFile('members/dotted.ts', `
+        export namespace App.Plugins.Core {
+          export function load() {}
+        }
+      `);
+      
+      expect(selector.query("SELECT name FROM ModuleDeclaration WHERE path LIKE '%dotted.ts'").rows)
+        .toEqual([{ name: 'App.Plugins.Core' }]);
+      expect(selector.query("SELECT name, ancestor(ModuleDeclaration).name AS namespace FROM FunctionDeclaration WHERE path LIKE '%dotted.ts'").rows)
+        .toEqual([{ name: 'load', namespace: 'App.Plugins.Core' }]);
+    });
+  });
+  
+  describe('inheritance', () => {
+    beforeEach(() => {
+      project.createSourceFile('repositories/base.ts', `
+        export interface Entity { id: number; }
+        export interface Repository<T> { find(id: number): T; }
+        export interface CrudRepository<T> extends Repository<T> {}
+        export abstract class BaseRepository<T> implements CrudRepository<T> {
+          abstract find(id: number): T;
+        }
+      `);
+      project.createSourceFile('repositories/users.ts', `
+        import { BaseRepository as Base, Entity } from './base';
+        
+        export interface UserDto extends Entity {}
+        export class UserRepository extends Base<UserDto> {
+          find(id: number): UserDto { return { id }; }
+        }
+        export class AdminRepository extends UserRepository {}
+      `);
+    });
+    
+    it('should resolve extends and implements through aliases and type arguments', () => {
+      const rows = selector.query("SELECT name, extends, implements FROM ClassDeclaration WHERE path LIKE '%repositories%'").rows;
+      expect(rows).toEqual([
+        { name: 'BaseRepository', extends: null, implements: 'CrudRepository' },
+        { name: 'UserRepository', extends: 'BaseRepository', implements: null },
+        { name: 'AdminRepository', extends: 'UserRepository', implements: null }
+      ]);
+      
+      const dtos = selector.query("SELECT name FROM InterfaceDeclaration WHERE extends = 'Entity'").rows;
+      expect(dtos).toEqual([{ name: 'UserDto' }]);
+    });
+    
+    it('should match inherited classes and interfaces anywhere in the hierarchy', () => {
+      const names = (query: string) => selector.query(query).nodes.map(node => (node as ClassDeclaration).getName());
+      
+      expect(names("SELECT * FROM ClassDeclaration WHERE inherits = 'Repository'"))
+        .toEqual(['BaseRepository', 'UserRepository', 'AdminRepository']);
+      expect(names("SELECT * FROM ClassDeclaration WHERE inherits = 'BaseRepository' AND NOT extends = 'BaseRepository'"))
+        .toEqual(['AdminRepository']);
+      
+      const joined = selector.query(
+        "SELECT c.name FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c INHERITS i WHERE i.name = 'Repository'"
+      );
+      expect(joined.rows).toHaveLength(3);
+    });
+    
+    it('should collect subtypes and supertypes', () => {
+      const result = selector.query<InterfaceDeclaration>(
+        "SELECT * FROM InterfaceDeclaration WHERE name = 'Repository' WITH SUBTYPES, SUPERTYPES"
+      );
+      const repository = result.nodes[0];
+      expect(result.subtypes!.get(repository)!.map(node => (node as ClassDeclaration).getName())).toEqual([
+        'BaseRepository',
+        'UserRepository',
+        'AdminRepository',
+        'CrudRepository'
+      ]);
+      expect(result.supertypes!.size).toBe(0);
+      expect(result.references).toBeUndefined();
+      
+      const admin = selector.query<ClassDeclaration>("SELECT * FROM ClassDeclaration WHERE name = 'AdminRepository' WITH SUPERTYPES");
+      expect(admin.supertypes!.get(admin.nodes[0])!.map(node => (node as ClassDeclaration).getName()))
+        .toEqual(expect.arrayContaining(['UserRepository', 'BaseRepository', 'CrudRepository', 'Repository']));
+      expect(admin.subtypes).toBeUndefined();
+    });
+  });
+  
+  describe('call graph', () => {
+    beforeEach(() => {
+      project.createSourceFile('calls/store.ts', `
+        export class UserStore {
+          saveUser(name: string): void {}
+        }
+        export function validate(name: string): boolean { return name.length > 0; }
+      `);
+      project.createSourceFile('calls/handlers.ts', `
+        import { UserStore as Store, validate } from './store';
+        
+        export function createUser(store: Store, name: string) {
+          [name].filter(value => validate(value));
+          store.saveUser(name);
+        }
+        export function handleRequest(store: Store) {
+          createUser(store, 'x');
+        }
+        export class Controller {
+          constructor(private store: Store) {}
+          post() { handleRequest(this.store); }
+        }
+      `);
+    });
+    
+    it('should match CALLS and CALLED BY through aliased imports and typed instances', () => {
+      const names = (query: string) => selector.query(query).nodes.map(node => (node as FunctionDeclaration).getName());
+      
+      expect(names("SELECT * FROM FunctionDeclaration WHERE CALLS 'saveUser'")).toEqual(['createUser']);
+      expect(names("SELECT * FROM FunctionDeclaration WHERE CALLED BY 'handleRequest' OR CALLS 'createUser'"))
+        .toEqual(['createUser', 'handleRequest']);
+      expect(selector.query("SELECT * FROM MethodDeclaration WHERE CALLED BY :caller", { caller: 'createUser' }).nodes)
+        .toHaveLength(1);
+      
+      const rows = selector.query("SELECT name, calls, calledBy FROM FunctionDeclaration WHERE path LIKE '%calls/handlers.ts'").rows;
+      expect(rows).toEqual([
+        { name: 'createUser', calls: 'filter, validate, saveUser', calledBy: 'handleRequest' },
+        { name: 'handleRequest', calls: 'createUser', calledBy: 'post' }
+      ]);
+    });
+    
+    it('should collect callers and callees up to the requested depth', () => {
+      const callNames = (calls: Map<Node, Node[]>, node: Node) =>
+        calls.get(node)!.map(related => (related as FunctionDeclaration).getName());
+      
+      const save = selector.query("SELECT * FROM MethodDeclaration WHERE name = 'saveUser' WITH CALLERS DEPTH 3");
+      expect(callNames(save.callers!, save.nodes[0])).toEqual(['createUser', 'handleRequest', 'post']);
+      expect(save.callees).toBeUndefined();
+      
+      const handler = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'handleRequest' WITH CALLEES, CALLERS");
+      expect(callNames(handler.callees!, handler.nodes[0])).toEqual(['createUser']);
+      expect(callNames(handler.callers!, handler.nodes[0])).toEqual(['post']);
+    });
+    
+    it('should not attribute decorator calls to the decorated member', () => {
+      project.createSourceFile('calls/decorated.ts', `
+        import { validate } from './store';
+        
+        function Log(): any { return () => {}; }
+        export class Audited {
+          @Log()
+          check(@Log() name: string) { validate(name); }
+        }
+      `);
+      
+      expect(selector.query("SELECT name, calls FROM MethodDeclaration WHERE name = 'check'").rows)
+        .toEqual([{ name: 'check', calls: 'validate' }]);
+      expect(selector.query("SELECT name, calledBy FROM FunctionDeclaration WHERE name = 'Log'").rows)
+        .toEqual([{ name: 'Log', calledBy: null }]);
+    });
+    
+    it('should attribute calls in arrow functions and function expressions to the declaration they initialize', () => {
+      project.createSourceFile('calls/routes.ts', `
+        import { UserStore } from './store';
+        import { handleRequest } from './handlers';
+        
+        export const route = (store: UserStore) => [store].forEach(item => handleRequest(item));
+        export class Router {
+          handle = function (store: UserStore) { route(store); };
+        }
+      `);
+      
+      expect(selector.query("SELECT name FROM * WHERE CALLED BY 'route'").rows).toEqual([{ name: 'handleRequest' }]);
+      expect(selector.query("SELECT name, calledBy FROM VariableDeclaration WHERE CALLS 'handleRequest'").rows)
+        .toEqual([{ name: 'route', calledBy: 'handle' }]);
+      
+      const handler = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'handleRequest' WITH CALLERS DEPTH 2");
+      expect(handler.callers!.get(handler.nodes[0])!.map(caller => (caller as FunctionDeclaration).getName()))
+        .toEqual(['post', 'route', 'handle']);
+    });
+  });
+  
+  describe('classified references', () => {
+    beforeEach(() => {
+      project.createSourceFile('refs/config.ts', `
+        export interface Config { retries: number; }
+        export let current: Config = { retries: 1 };
+        export function load(): Config { return current; }
+        export { load as loadConfig };
+        export function reset() { current = { retries: 0 }; }
+      `);
+      project.createSourceFile('refs/app.ts', `
+        import { Config, current, load } from './config';
+        import * as config from './config';
+        
+        const defaults: config.Config = load();
+        config.load();
+        let active: typeof current = current;
+      `);
+      project.createSourceFile('refs/app.test.ts', `
+        import { load } from './config';
+        load();
+      `);
+    });
+    
+    const summary = (references: NodeReference[]) =>
+      references.map(reference => `${reference.kind} ${reference.path.split('/').pop()}:${reference.line}:${reference.column}`);
+    
+    it('should classify references with their file and position', () => {
+      const result = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'load' WITH REFERENCES");
+      expect(summary(result.references!.get(result.nodes[0])!)).toEqual([
+        'import app.test.ts:2:18',
+        'call app.test.ts:3:9',
+        'import app.ts:2:35',
+        'call app.ts:5:41',
+        'call app.ts:6:16',
+        'declaration config.ts:4:25',
+        'export config.ts:5:18',
+        'export config.ts:5:26'
+      ]);
+      expect(result.references!.get(result.nodes[0])![5].node.getParent()).toBe(result.nodes[0]);
+      
+      const variable = selector.query("SELECT * FROM VariableDeclaration WHERE name = 'current' WITH REFERENCES EXCLUDING DECLARATIONS");
+      expect(summary(variable.references!.get(variable.nodes[0])!).map(text => text.split(' ')[0])).toEqual([
+        'import',
+        'type-reference',
+        'read',
+        'read',
+        'write'
+      ]);
+    });
+    
+    it('should filter references with EXCLUDING DECLARATIONS and WHERE', () => {
+      const result = selector.query(
+        "SELECT * FROM InterfaceDeclaration WHERE name = 'Config' " +
+        "WITH REFERENCES EXCLUDING DECLARATIONS WHERE kind = 'type-reference' AND path NOT LIKE :tests, SUBTYPES",
+        { tests: '%.test.ts' }
+      );
+      expect(summary(result.references!.get(result.nodes[0])!)).toEqual([
+        'type-reference app.ts:5:32',
+        'type-reference config.ts:3:29',
+        'type-reference config.ts:4:33'
+      ]);
+      expect(result.subtypes!.size).toBe(0);
+      
+      const load = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'load' WITH REFERENCES WHERE kind = 'call' AND baseName = 'app.test.ts'");
+      expect(summary(load.references!.get(load.nodes[0])!)).toEqual(['call app.test.ts:3:9']);
+    });
+  });
+  
+  describe('dependencies', () => {
+    beforeEach(() => {
+      project.createSourceFile('deps/model.ts', `
+        export enum Role { Admin, Member }
+        export interface Address { street: string; owner: Person; }
+        export interface Person { name: string; address?: Address; roles: Role[]; }
+        export type Team = { lead: Person; members: Array<Person> } | null;
+        export class Audit { log(entry: Map<string, Team>): void { const seen: Set<Role> = new Set(); } }
+      `);
+      project.createSourceFile('deps/service.ts', `
+        import * as model from './model';
+        
+        export interface Page<T> { items: T[]; }
+        export function listTeams(audit: model.Audit, role: model.Role.Admin): Promise<Page<model.Team>> {
+          const person: model.Person | undefined = undefined;
+          return Promise.resolve({ items: [] });
+        }
+      `);
+    });
+    
+    const dependencyNames = (result: QueryResult, node: Node) =>
+      (result.dependencies!.get(node) ?? []).map(dependency => (dependency as InterfaceDeclaration).getName());
+    
+    it('should collect the transitive dependencies of a signature', () => {
+      const result = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'listTeams' WITH DEPENDENCIES");
+      expect(dependencyNames(result, result.nodes[0])).toEqual(['Audit', 'Role', 'Page', 'Team', 'Person', 'Address']);
+      
+      const direct = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'listTeams' WITH DEPENDENCIES DEPTH 1");
+      expect(dependencyNames(direct, direct.nodes[0])).toEqual(['Audit', 'Role', 'Page', 'Team']);
+    });
+    
+    it('should stop at cycles and map nodes without dependencies to nothing', () => {
+      const result = selector.query("SELECT * FROM InterfaceDeclaration WHERE path LIKE '%deps/model.ts' WITH DEPENDENCIES");
+      const [address, person] = result.nodes;
+      expect(dependencyNames(result, address)).toEqual(['Person', 'Role']);
+      expect(dependencyNames(result, person)).toEqual(['Address', 'Role']);
+      
+      const enums = selector.query("SELECT * FROM EnumDeclaration WHERE name = 'Role' WITH DEPENDENCIES");
+      expect(enums.dependencies!.size).toBe(0);
+    });
+    
+    it('should resolve typeof queries and import types', () => {
+      project.createSourceFile('deps/report.ts', `
+        import { Audit } from './model';
+        
+        export function report(audit: typeof Audit, lead: import('./model').Person, roles: typeof import('./model').Role): void {}
+      `);
+      
+      const result = selector.query("SELECT * FROM FunctionDeclaration WHERE name = 'report' WITH DEPENDENCIES DEPTH 1");
+      expect(dependencyNames(result, result.nodes[0])).toEqual(['Audit', 'Person', 'Role']);
+    });
+  });
+  
+  describe('UNION, INTERSECT and EXCEPT', () => {
+    it('should combine node results by node identity', () => {
+      const names = (query: string) => selector.query<FunctionDeclaration>(query).nodes.map(node => node.getName());
+      
+      expect(names(
+        "SELECT * FROM FunctionDeclaration WHERE modifier = 'export' EXCEPT SELECT * FROM FunctionDeclaration WHERE name LIKE 'test%'"
+      )).toEqual(['getUserById']);
+      expect(names(
+        "SELECT * FROM FunctionDeclaration WHERE name LIKE '%User%' UNION SELECT * FROM FunctionDeclaration ORDER BY name DESC"
+      )).toEqual(['testFunction', 'getUserById']);
+      expect(names(
+        "SELECT * FROM FunctionDeclaration WHERE paramCount = 0 INTERSECT SELECT * FROM FunctionDeclaration WHERE name LIKE 'test%'"
+      )).toEqual(['testFunction']);
+    });
+    
+    it('should combine rows of different node types by column values', () => {
+      const result = selector.query(
+        "SELECT name FROM ClassDeclaration UNION SELECT name FROM InterfaceDeclaration WHERE name != 'Product' ORDER BY name"
+      );
+      expect(result.rows).toEqual([{ name: 'TestService' }, { name: 'User' }, { name: 'UserService' }]);
+      expect(result.nodes).toHaveLength(3);
+      
+      const paths = 'SELECT path AS file FROM ClassDeclaration UNION SELECT path FROM InterfaceDeclaration';
+      expect(selector.query(paths).rows).toEqual([{ file: '/test.ts' }]);
+      expect(selector.query(paths.replace('UNION', 'UNION ALL')).rows).toHaveLength(4);
+    });
+    
+    it('should apply LIMIT to the combined result and support compound views', () => {
+      selector.query(
+        "CREATE VIEW Helpers AS SELECT * FROM FunctionDeclaration EXCEPT SELECT * FROM FunctionDeclaration WHERE name LIKE 'get%'"
+      );
+      expect(selector.query<FunctionDeclaration>('SELECT * FROM Helpers').nodes.map(node => node.getName()))
+        .toEqual(['testFunction']);
+      expect(selector.query('SELECT * FROM ClassDeclaration UNION SELECT * FROM ClassDeclaration LIMIT 1').nodes)
+        .toHaveLength(1);
+    });
+  });
+  
+  describe('views', () => {
+    it('should select from and join views defined with defineView and CREATE VIEW', () => {
+      selector.defineView('Services', "SELECT * FROM ClassDeclaration WHERE name LIKE '%Service'");
+      expect(selector.query('CREATE VIEW UserApi AS SELECT * FROM Services WHERE name LIKE \'User%\'').nodes).toEqual([]);
+      
+      const result = selector.query<ClassDeclaration>('SELECT * FROM UserApi');
+      expect(result.nodes.map(node => node.getName())).toEqual(['UserService']);
+      
+      const joined = selector.query(
+        'SELECT s.name, m.name AS method FROM Services s JOIN MethodDeclaration m ON s CONTAINS m ORDER BY method'
+      );
+      expect(joined.rows).toEqual([
+        { 's.name': 'UserService', method: 'getUser' },
+        { 's.name': 'TestService', method: 'test' }
+      ]);
+    });
+    
+    it('should define views built with from()', () => {
+      selector.defineView('Getters', selector.from('FunctionDeclaration').where('name').startsWith('get').build());
+      expect(selector.query<FunctionDeclaration>('SELECT * FROM Getters').nodes.map(node => node.getName()))
+        .toEqual(['getUserById']);
+      expect(selector.getViews().map(view => view.name)).toEqual(['Getters']);
+      expect(() => selector.defineView('Getters', 'SELECT * FROM *')).toThrow(/View 'Getters' is already defined/);
+    });
+    
+    it('should load a view library next to the tsconfig', () => {
+      const fileSystem = project.getFileSystem();
+      fileSystem.writeFileSync('/app/tsconfig.json', '{ "include": ["*.ts"] }');
+      fileSystem.writeFileSync('/app/models.ts', 'export interface UserDto {}\nexport interface Order {}');
+      fileSystem.writeFileSync('/app/queries.tsquery', `
+        -- Data transfer objects
+        CREATE VIEW Dtos AS SELECT * FROM InterfaceDeclaration WHERE name LIKE '%Dto';
+      `);
+      const appSelector = new TsMorphSelector(new Project({ fileSystem, tsConfigFilePath: '/app/tsconfig.json' }));
+      
+      expect(appSelector.loadViews().map(view => view.name)).toEqual(['Dtos']);
+      expect(appSelector.query<InterfaceDeclaration>('SELECT * FROM Dtos').nodes.map(node => node.getName()))
+        .toEqual(['UserDto']);
+      expect(() => selector.loadViews()).toThrow(/no tsconfig/);
+      expect(() => selector.loadViews('/missing.tsquery')).toThrow(/View library not found/);
+    });
+  });
+  
+  describe('from', () => {
+    it('should run a typed builder query', () => {
+      const result = selector.from('ClassDeclaration')
+        .where('name').like('%Service')
+        .and('modifier').contains('export')
+        .withReferences()
+        .run();
+      expect(result.nodes.map(node => node.getName())).toEqual(['UserService', 'TestService']);
+      expect(result.references).toBeDefined();
+    });
+  });
+  
   describe('validate', () => {
     it('should validate correct query', () => {
       const result = selector.validate('SELECT * FROM InterfaceDeclaration');
@@ -1,7 +1,17 @@
+import * as path from 'path';
 import { Project, Node } from 'ts-morph';
 import { QueryParser } from './parser';
 import { QueryExecutor } from './executor';
-import { QueryResult, SelectorOptions } from './types';
+import { NodeType, ParsedQuery, QueryParameters, QueryResult, SelectorOptions, ViewDefinition } from './types';
+import { QuerySyntaxError } from './errors';
+import { bindParameters } from './parameters';
+import { QueryBuilder } from './builder';
+import { QueryPrinter } from './printer';
+
+/**
+ * File loaded by loadViews when no path is given, looked up next to the project's tsconfig
+ */
+const DEFAULT_VIEW_LIBRARY = 'queries.tsquery';
 
 /**
  * Main selector class for querying ts-morph nodes with SQL-like syntax
@@ -26,20 +36,27 @@ import { QueryResult, SelectorOptions } from './types';
 export class TsMorphSelector {
   private parser: QueryParser;
   private executor: QueryExecutor;
+  /** Queries of the defined views, shared with the parser and the executor */
+  private views = new Map<string, ParsedQuery>();
   
   constructor(
     private project: Project,
     private options: SelectorOptions = {}
   ) {
-    this.parser = new QueryParser();
-    this.executor = new QueryExecutor(project, options);
+    this.parser = new QueryParser(this.views);
+    this.executor = new QueryExecutor(project, options, this.views);
   }
   
   /**
    * Execute a SQL-like query against the project
    * 
+   * A `CREATE VIEW` statement defines a view instead, as defineView does, and returns an empty result.
+   * 
    * @param queryString SQL-like query string
+   * @param params Values for the query's `?` placeholders in order, or its `:name` placeholders by name
    * @returns Query result with matched nodes and optionally their references
+   * @throws QuerySyntaxError if the query cannot be parsed
+   * @throws QueryParameterError if the parameters do not fit the query's placeholders
    * 
    * @example
    * ```typescript
@@ -51,27 +68,102 @@ export class TsMorphSelector {
    * 
    * // With references
    * const result = selector.query("SELECT * FROM ClassDeclaration WHERE name = 'MyClass' WITH REFERENCES");
+   * 
+   * // With parameters
+   * const result = selector.query('SELECT * FROM FunctionDeclaration WHERE name LIKE :prefix', { prefix: 'use%' });
    * ```
    */
-  query<T extends Node = Node>(queryString: string): QueryResult<T> {
-    const parsedQuery = this.parser.parse(queryString);
-    const result = this.executor.execute<T>(parsedQuery);
-    
-    // Apply max results limit if specified
-    if (this.options.maxResults && result.nodes.length > this.options.maxResults) {
-      result.nodes = result.nodes.slice(0, this.options.maxResults);
+  query<T extends Node = Node>(queryString: string, params?: QueryParameters): QueryResult<T> {
+    const statement = this.parser.parseStatement(queryString);
+    if (!('nodeType' in statement)) {
+      this.views.set(statement.name, statement.query);
+      return { nodes: [] };
+    }
+    return this.executor.execute<T>(bindParameters(statement, params));
+  }
+  
+  /**
+   * Define a view: a named query usable like a node type in the FROM and JOIN clauses of later queries
+   * 
+   * @param name View name; it must not be a node type or an existing view
+   * @param query A `SELECT * ...` query without parameters, as text or as built by `from()`
+   * @throws QuerySyntaxError if the name is taken or the query is invalid or cannot be a view
+   * 
+   * @example
+   * ```typescript
+   * selector.defineView('PublicServices', "SELECT * FROM ClassDeclaration WHERE name LIKE '%Service' AND modifier = 'export'");
+   * const result = selector.query('SELECT * FROM PublicServices WHERE memberCount > 5');
+   * ```
+   */
+  defineView(name: string, query: string | ParsedQuery): void {
+    const text = typeof query === 'string' ? query : new QueryPrinter().print(query);
+    const view = this.parser.parseView(`CREATE VIEW ${name} AS ${text}`);
+    this.views.set(view.name, view.query);
+  }
+  
+  /**
+   * Define the views of a `.tsquery` library: CREATE VIEW statements separated by `;`, with `--` comments
+   * 
+   * Either all views of the library are defined or, when one is invalid, none.
+   * 
+   * @param filePath Library file; defaults to `queries.tsquery` next to the project's tsconfig
+   * @returns Definitions of the views, in library order
+   * @throws QuerySyntaxError if a statement is invalid
+   */
+  loadViews(filePath?: string): ViewDefinition[] {
+    const fileSystem = this.project.getFileSystem();
+    const libraryPath = filePath ?? this.defaultViewLibrary();
+    if (!fileSystem.fileExistsSync(libraryPath)) {
+      throw new Error(`View library not found: ${libraryPath}`);
     }
     
-    return result;
+    const views = this.parser.parseLibrary(fileSystem.readFileSync(libraryPath));
+    for (const view of views) {
+      this.views.set(view.name, view.query);
+    }
+    return views;
+  }
+  
+  /**
+   * Get the views defined so far
+   */
+  getViews(): ViewDefinition[] {
+    return [...this.views].map(([name, query]) => ({ name, query }));
+  }
+  
+  private defaultViewLibrary(): string {
+    const configFilePath = this.project.getCompilerOptions().configFilePath;
+    if (typeof configFilePath !== 'string') {
+      throw new Error('The project has no tsconfig; pass the path of the view library to loadViews');
+    }
+    return path.join(path.dirname(configFilePath), DEFAULT_VIEW_LIBRARY);
+  }
+  
+  /**
+   * Start a typed query builder for the given node type
+   * 
+   * @param nodeType Node type to select; it decides which properties the builder accepts
+   * @returns Builder whose `run()` executes against this selector's project
+   * 
+   * @example
+   * ```typescript
+   * const result = selector.from('ClassDeclaration')
+   *   .where('name').like('%Service')
+   *   .and('modifier').contains('export')
+   *   .run(); // QueryResult<ClassDeclaration>
+   * ```
+   */
+  from<K extends NodeType>(nodeType: K): QueryBuilder<K> {
+    return new QueryBuilder(nodeType, query => this.executor.execute(query));
   }
   
   /**
-   * Validate a query string without executing it
+   * Validate a query string or CREATE VIEW statement without executing it
    * 
    * @param queryString SQL-like query string to validate
-   * @returns Validation result with error message if invalid
+   * @returns Validation result with error message (and the structured syntax error) if invalid
    */
-  validate(queryString: string): { valid: boolean; error?: string } {
+  validate(queryString: string): { valid: boolean; error?: string; syntaxError?: QuerySyntaxError } {
     return this.parser.validate(queryString);
   }
   
@@ -85,5 +177,11 @@ export class TsMorphSelector {
 
 // Export all types and classes
 export * from './types';
+export * from './errors';
+export * from './lexer';
 export * from './parser';
 export * from './executor';
+export * from './parameters';
+export * from './builder';
+export * from './printer';
+export * from './json';
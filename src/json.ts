@@ -0,0 +1,51 @@
+import { ParsedQuery, QueryJSON, QUERY_JSON_VERSION } from './types';
+import { QueryJSONError } from './errors';
+import { QueryParser } from './parser';
+import { QueryPrinter } from './printer';
+
+/**
+ * Serialize a parsed query into the versioned JSON format
+ *
+ * The result is a plain object without undefined fields, ready for JSON.stringify.
+ */
+export function toJSON(query: ParsedQuery): QueryJSON {
+  return { version: QUERY_JSON_VERSION, query: JSON.parse(JSON.stringify(query)) };
+}
+
+/**
+ * Read a query serialized by toJSON, given as the object or as JSON text
+ *
+ * The query is checked by printing and parsing it again, so the result is exactly what the parser
+ * returns for the same query text: unknown node types, properties and operators are rejected and
+ * positional parameters are numbered in order of appearance.
+ *
+ * @param views Views the query may select from, by name
+ * @throws QueryJSONError if the input is not valid JSON, has another version or is not a valid query
+ */
+export function fromJSON(json: QueryJSON | string, views?: ReadonlyMap<string, ParsedQuery>): ParsedQuery {
+  let data: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new QueryJSONError(`Invalid query JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (typeof data !== 'object' || data === null || !('version' in data)) {
+    throw new QueryJSONError('Query JSON must be an object with a version and a query');
+  }
+  const { version, query } = data as { version: unknown; query: unknown };
+  if (version !== QUERY_JSON_VERSION) {
+    throw new QueryJSONError(`Unsupported query JSON version ${String(version)}; expected ${QUERY_JSON_VERSION}`);
+  }
+  if (typeof query !== 'object' || query === null) {
+    throw new QueryJSONError('Query JSON has no query object');
+  }
+
+  try {
+    return new QueryParser(views).parse(new QueryPrinter().print(query as ParsedQuery));
+  } catch (error) {
+    throw new QueryJSONError(`Invalid query: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,59 @@
+import { QueryLexer, TokenType } from '../src/lexer';
+import { QuerySyntaxError } from '../src/errors';
+
+describe('QueryLexer', () => {
+  it('should tokenize identifiers, symbols and strings with offsets', () => {
+    const tokens = new QueryLexer("SELECT * FROM X WHERE name != 'a b'").tokenize();
+    expect(tokens.map(token => token.type)).toEqual([
+      TokenType.IDENTIFIER,
+      TokenType.SYMBOL,
+      TokenType.IDENTIFIER,
+      TokenType.IDENTIFIER,
+      TokenType.IDENTIFIER,
+      TokenType.IDENTIFIER,
+      TokenType.SYMBOL,
+      TokenType.STRING,
+      TokenType.EOF
+    ]);
+    expect(tokens[6]).toEqual({ type: TokenType.SYMBOL, value: '!=', start: 27, end: 29 });
+    expect(tokens[7]).toEqual({ type: TokenType.STRING, value: 'a b', start: 30, end: 35 });
+  });
+  
+  it('should tokenize integer and decimal numbers', () => {
+    const tokens = new QueryLexer('LIMIT 10 OFFSET 2.5').tokenize();
+    expect(tokens[1]).toEqual({ type: TokenType.NUMBER, value: '10', start: 6, end: 8 });
+    expect(tokens[3].value).toBe('2.5');
+  });
+  
+  it('should keep keywords inside strings as string content', () => {
+    const tokens = new QueryLexer('"x AND y"').tokenize();
+    expect(tokens).toHaveLength(2);
+    expect(tokens[0].value).toBe('x AND y');
+  });
+  
+  it('should unescape doubled quotes inside strings', () => {
+    const tokens = new QueryLexer(`'it''s' "say ""hi""" 'a"b' ''`).tokenize();
+    expect(tokens.map(token => token.value)).toEqual(["it's", 'say "hi"', 'a"b', '', '']);
+    expect(tokens[0]).toMatchObject({ start: 0, end: 7 });
+    expect(() => new QueryLexer("'it''s").tokenize()).toThrow(/Unterminated string/);
+  });
+  
+  it('should tokenize positional and named parameters', () => {
+    const tokens = new QueryLexer('name = ? AND kind IN :kinds').tokenize();
+    expect(tokens[2]).toEqual({ type: TokenType.PARAMETER, value: '?', start: 7, end: 8 });
+    expect(tokens[6]).toEqual({ type: TokenType.PARAMETER, value: 'kinds', start: 21, end: 27 });
+  });
+  
+  it('should skip comments and tokenize statement separators', () => {
+    const tokens = new QueryLexer("-- header\nSELECT * -- all\nFROM X; '--'").tokenize();
+    expect(tokens.map(token => token.value)).toEqual(['SELECT', '*', 'FROM', 'X', ';', '--', '']);
+  });
+  
+  it('should reject unterminated strings', () => {
+    expect(() => new QueryLexer("name = 'abc").tokenize()).toThrow(/Unterminated string/);
+  });
+  
+  it('should reject unknown characters', () => {
+    expect(() => new QueryLexer('name # 1').tokenize()).toThrow(QuerySyntaxError);
+  });
+});
@@ -0,0 +1,162 @@
+import { QuerySyntaxError } from './errors';
+
+/**
+ * Token categories produced by the query lexer
+ */
+export enum TokenType {
+  IDENTIFIER = 'identifier',
+  STRING = 'string',
+  NUMBER = 'number',
+  SYMBOL = 'symbol',
+  /** Bind parameter placeholder: `?` (value '?') or `:name` (value 'name') */
+  PARAMETER = 'parameter',
+  EOF = 'eof'
+}
+
+/**
+ * A single lexical token of a query string
+ */
+export interface Token {
+  type: TokenType;
+  /** Token text; for strings this is the unquoted, unescaped content */
+  value: string;
+  /** Offset of the first character of the token in the query string */
+  start: number;
+  /** Offset just past the last character of the token */
+  end: number;
+}
+
+/**
+ * Punctuation and operator symbols, longest first so that `!=` wins over `=`
+ */
+const SYMBOLS = ['!=', '<>', '<=', '>=', '=', '<', '>', '(', ')', ',', '*', '.', ';'];
+
+/**
+ * Splits a query string into tokens
+ *
+ * Keywords are not distinguished from identifiers here; the parser matches
+ * them case-insensitively so that words like `name` or `kind` stay usable
+ * as property names.
+ */
+export class QueryLexer {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  /**
+   * Tokenize the whole input, always ending with an EOF token
+   */
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+    this.position = 0;
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.position >= this.input.length) {
+        tokens.push({ type: TokenType.EOF, value: '', start: this.position, end: this.position });
+        return tokens;
+      }
+      tokens.push(this.readToken());
+    }
+  }
+
+  private readToken(): Token {
+    const char = this.input[this.position];
+
+    if (char === '\'' || char === '"') {
+      return this.readString(char);
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      return this.readIdentifier();
+    }
+
+    if (/[0-9]/.test(char)) {
+      return this.readNumber();
+    }
+
+    if (char === '?' || (char === ':' && /[A-Za-z_]/.test(this.input[this.position + 1] ?? ''))) {
+      return this.readParameter();
+    }
+
+    for (const symbol of SYMBOLS) {
+      if (this.input.startsWith(symbol, this.position)) {
+        const start = this.position;
+        this.position += symbol.length;
+        return { type: TokenType.SYMBOL, value: symbol, start, end: this.position };
+      }
+    }
+
+    throw new QuerySyntaxError(`Unexpected character '${char}'`, this.input, this.position, char);
+  }
+
+  /**
+   * Read a quoted string; a doubled quote character inside it stands for one literal quote
+   */
+  private readString(quote: string): Token {
+    const start = this.position;
+    let value = '';
+    let from = start + 1;
+    while (true) {
+      const closing = this.input.indexOf(quote, from);
+      if (closing === -1) {
+        throw new QuerySyntaxError('Unterminated string', this.input, start, this.input.slice(start));
+      }
+      value += this.input.slice(from, closing);
+      if (this.input[closing + 1] !== quote) {
+        this.position = closing + 1;
+        break;
+      }
+      value += quote;
+      from = closing + 2;
+    }
+    return { type: TokenType.STRING, value, start, end: this.position };
+  }
+
+  private readParameter(): Token {
+    const start = this.position;
+    if (this.input[start] === '?') {
+      this.position++;
+      return { type: TokenType.PARAMETER, value: '?', start, end: this.position };
+    }
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.input.slice(start + 1))![0];
+    this.position += name.length + 1;
+    return { type: TokenType.PARAMETER, value: name, start, end: this.position };
+  }
+
+  private readIdentifier(): Token {
+    const start = this.position;
+    while (this.position < this.input.length && /[A-Za-z0-9_$]/.test(this.input[this.position])) {
+      this.position++;
+    }
+    return {
+      type: TokenType.IDENTIFIER,
+      value: this.input.slice(start, this.position),
+      start,
+      end: this.position
+    };
+  }
+
+  private readNumber(): Token {
+    const start = this.position;
+    const match = /^[0-9]+(\.[0-9]+)?/.exec(this.input.slice(start))!;
+    this.position += match[0].length;
+    return { type: TokenType.NUMBER, value: match[0], start, end: this.position };
+  }
+
+  /**
+   * Skip whitespace and `--` comments, which run to the end of the line
+   */
+  private skipWhitespace(): void {
+    while (this.position < this.input.length) {
+      if (/\s/.test(this.input[this.position])) {
+        this.position++;
+      } else if (this.input.startsWith('--', this.position)) {
+        const lineEnd = this.input.indexOf('\n', this.position);
+        this.position = lineEnd === -1 ? this.input.length : lineEnd + 1;
+      } else {
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import {
+  BooleanExpression,
+  ConditionValue,
+  LogicalExpression,
+  NotExpression,
+  Parameter,
+  ParameterValue,
+  ParsedQuery,
+  QueryOperator,
+  QueryParameters
+} from './types';
+import { QueryParameterError } from './errors';
+import { parseRegexLiteral } from './patterns';
+
+/**
+ * A condition-like leaf of a WHERE, ON or HAVING expression
+ */
+type Leaf = { type: string; operator?: QueryOperator; value?: ConditionValue; query?: ParsedQuery };
+
+/**
+ * Replace the parameter placeholders of a parsed query with values
+ *
+ * `?` placeholders take values from an array in order and `:name` placeholders from an object.
+ * The query is not modified; a query without placeholders is returned as is.
+ *
+ * @throws QueryParameterError if a value is missing, has the wrong shape, or positional values are left over
+ */
+export function bindParameters(query: ParsedQuery, params: QueryParameters = []): ParsedQuery {
+  const placeholders = collectParameters(query);
+  const positional = placeholders.filter(parameter => parameter.index !== undefined).length;
+  if (Array.isArray(params) && params.length > positional) {
+    throw new QueryParameterError(
+      `Query has ${positional} positional parameter${positional === 1 ? '' : 's'} but ${params.length} values were given`
+    );
+  }
+  if (placeholders.length === 0) {
+    return query;
+  }
+
+  const lookup = (parameter: Parameter): ParameterValue => {
+    const label = parameterLabel(parameter);
+    const value = parameter.index !== undefined
+      ? (Array.isArray(params) ? params[parameter.index] : undefined)
+      : (Array.isArray(params) ? undefined : params[parameter.name!]);
+    if (value === undefined) {
+      throw new QueryParameterError(`Missing value for parameter ${label}`, label);
+    }
+    return value;
+  };
+  return bindQuery(query, lookup);
+}
+
+/**
+ * List the parameter placeholders of a query and its subqueries in order of appearance
+ */
+export function collectParameters(query: ParsedQuery): Parameter[] {
+  const found: Parameter[] = [];
+  const visitValue = (value: ConditionValue | undefined): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visitValue);
+    } else if (typeof value === 'object') {
+      if (value.type === 'parameter') {
+        found.push(value);
+      } else if (value.type === 'subquery') {
+        found.push(...collectParameters(value.query));
+      }
+    }
+  };
+  const visit = (expression: BooleanExpression<Leaf>): void => {
+    forEachLeaf(expression, leaf => {
+      if (leaf.type === 'exists') {
+        found.push(...collectParameters(leaf.query!));
+      } else {
+        visitValue(leaf.value);
+      }
+    });
+  };
+
+  query.joins?.forEach(join => visit(join.on));
+  if (query.where) {
+    visit(query.where);
+  }
+  if (query.having) {
+    visit(query.having);
+  }
+  query.compound?.forEach(part => found.push(...collectParameters(part.query)));
+  if (query.referenceFilter?.where) {
+    visit(query.referenceFilter.where);
+  }
+  return found;
+}
+
+/**
+ * Placeholder as written in queries and error messages: `?1` (one-based) or `:name`
+ */
+export function parameterLabel(parameter: Parameter): string {
+  return parameter.index !== undefined ? `?${parameter.index + 1}` : `:${parameter.name}`;
+}
+
+function bindQuery(query: ParsedQuery, lookup: (parameter: Parameter) => ParameterValue): ParsedQuery {
+  const bindExpression = <C extends Leaf>(expression: BooleanExpression<C>): BooleanExpression<C> =>
+    mapLeaves(expression, leaf => {
+      if (leaf.type === 'exists') {
+        return { ...leaf, query: bindQuery(leaf.query!, lookup) };
+      }
+      return leaf.value === undefined ? leaf : { ...leaf, value: bindValue(leaf.value, leaf.operator!, lookup) };
+    });
+
+  return {
+    ...query,
+    joins: query.joins?.map(join => ({ ...join, on: bindExpression(join.on) })),
+    where: query.where && bindExpression(query.where),
+    having: query.having && bindExpression(query.having),
+    compound: query.compound?.map(part => ({ ...part, query: bindQuery(part.query, lookup) })),
+    referenceFilter: query.referenceFilter?.where
+      ? { ...query.referenceFilter, where: bindExpression(query.referenceFilter.where) }
+      : query.referenceFilter
+  };
+}
+
+function bindValue(
+  value: ConditionValue,
+  operator: QueryOperator,
+  lookup: (parameter: Parameter) => ParameterValue
+): ConditionValue {
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? bindScalar(item, lookup) : item));
+  }
+  if (typeof value !== 'object' || value.type === 'outer' || value.type === 'column') {
+    return value;
+  }
+  if (value.type === 'subquery') {
+    return { type: 'subquery', query: bindQuery(value.query, lookup) };
+  }
+
+  // A whole IN list bound to one parameter
+  if (operator === QueryOperator.IN || operator === QueryOperator.NOT_IN) {
+    const bound = lookup(value);
+    return Array.isArray(bound) ? bound : [bound];
+  }
+
+  const bound = bindScalar(value, lookup);
+  if (operator === QueryOperator.MATCHES || operator === QueryOperator.NOT_MATCHES) {
+    try {
+      parseRegexLiteral(String(bound));
+    } catch (error) {
+      const label = parameterLabel(value);
+      throw new QueryParameterError(`Invalid regular expression for parameter ${label}: ${(error as Error).message}`, label);
+    }
+  }
+  return bound;
+}
+
+function bindScalar(parameter: Parameter, lookup: (parameter: Parameter) => ParameterValue): string | number {
+  const value = lookup(parameter);
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    const label = parameterLabel(parameter);
+    throw new QueryParameterError(`Parameter ${label} must be a string or number`, label);
+  }
+  return value;
+}
+
+function forEachLeaf<C extends { type: string }>(expression: BooleanExpression<C>, visit: (leaf: C) => void): void {
+  mapLeaves(expression, leaf => {
+    visit(leaf);
+    return leaf;
+  });
+}
+
+function mapLeaves<C extends { type: string }>(
+  expression: BooleanExpression<C>,
+  map: (leaf: C) => C
+): BooleanExpression<C> {
+  switch (expression.type) {
+    case 'and':
+    case 'or': {
+      const logical = expression as LogicalExpression<C>;
+      return { type: logical.type, operands: logical.operands.map(operand => mapLeaves(operand, map)) };
+    }
+
+    case 'not':
+      return { type: 'not', operand: mapLeaves((expression as NotExpression<C>).operand, map) };
+
+    default:
+      return map(expression as C);
+  }
+}
@@ -1,5 +1,6 @@
 import { QueryParser } from '../src/parser';
-import { QueryOperator } from '../src/types';
+import { QuerySyntaxError } from '../src/errors';
+import { QueryOperator, WhereCondition, LogicalExpression, NotExpression } from '../src/types';
 
 describe('QueryParser', () => {
   let parser: QueryParser;
@@ -19,22 +20,25 @@ describe('QueryParser', () => {
     it('should parse query with WHERE clause', () => {
       const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name = 'MyClass'");
       expect(result.nodeType).toBe('ClassDeclaration');
-      expect(result.where).toHaveLength(1);
-      expect(result.where![0].property).toBe('name');
-      expect(result.where![0].operator).toBe(QueryOperator.EQUALS);
-      expect(result.where![0].value).toBe('MyClass');
+      const condition = result.where as WhereCondition;
+      expect(condition.type).toBe('condition');
+      expect(condition.property).toBe('name');
+      expect(condition.operator).toBe(QueryOperator.EQUALS);
+      expect(condition.value).toBe('MyClass');
     });
     
     it('should parse query with LIKE operator', () => {
       const result = parser.parse("SELECT * FROM FunctionDeclaration WHERE name LIKE 'test%'");
-      expect(result.where![0].operator).toBe(QueryOperator.LIKE);
-      expect(result.where![0].value).toBe('test%');
+      const condition = result.where as WhereCondition;
+      expect(condition.operator).toBe(QueryOperator.LIKE);
+      expect(condition.value).toBe('test%');
     });
     
     it('should parse query with IN operator', () => {
       const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name IN ('A', 'B', 'C')");
-      expect(result.where![0].operator).toBe(QueryOperator.IN);
-      expect(result.where![0].value).toEqual(['A', 'B', 'C']);
+      const condition = result.where as WhereCondition;
+      expect(condition.operator).toBe(QueryOperator.IN);
+      expect(condition.value).toEqual(['A', 'B', 'C']);
     });
     
     it('should parse query with WITH REFERENCES', () => {
@@ -43,26 +47,528 @@ describe('QueryParser', () => {
       expect(result.nodeType).toBe('InterfaceDeclaration');
     });
     
+    it('should parse a list of WITH expansions', () => {
+      const result = parser.parse('SELECT * FROM ClassDeclaration WHERE inherits = "Repository" WITH SUBTYPES, supertypes');
+      expect(result.withReferences).toBe(false);
+      expect(result.withSubtypes).toBe(true);
+      expect(result.withSupertypes).toBe(true);
+      
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WITH SUBTYPES, SUBTYPES')).toThrow(/WITH SUBTYPES is given twice/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WITH CHILDREN')).toThrow(/Expected expansion \(REFERENCES, SUBTYPES/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE EXISTS (SELECT * FROM InterfaceDeclaration WITH SUPERTYPES)'))
+        .toThrow(/WITH SUPERTYPES is not allowed in a subquery/);
+    });
+    
+    it('should parse CALLS, CALLED BY and call expansions with a depth', () => {
+      const result = parser.parse("SELECT * FROM FunctionDeclaration WHERE CALLS 'save' AND NOT called by ? WITH CALLERS DEPTH 2, CALLEES");
+      expect(result.where).toEqual({
+        type: 'and',
+        operands: [
+          { type: 'condition', property: 'calls', operator: QueryOperator.EQUALS, value: 'save' },
+          {
+            type: 'not',
+            operand: { type: 'condition', property: 'calledBy', operator: QueryOperator.EQUALS, value: { type: 'parameter', index: 0 } }
+          }
+        ]
+      });
+      expect(result.withCallers).toBe(2);
+      expect(result.withCallees).toBe(1);
+      expect(result.withDependencies).toBeUndefined();
+      expect(parser.parse('SELECT * FROM FunctionDeclaration WITH DEPENDENCIES').withDependencies).toEqual({ depth: undefined });
+      expect(parser.parse('SELECT * FROM FunctionDeclaration WITH DEPENDENCIES DEPTH 2').withDependencies).toEqual({ depth: 2 });
+      expect(parser.parse("SELECT * FROM FunctionDeclaration WHERE calls LIKE 'save%'").where).toMatchObject({ property: 'calls' });
+      
+      expect(() => parser.parse('SELECT * FROM FunctionDeclaration WITH CALLERS DEPTH 0')).toThrow(/DEPTH must be at least 1/);
+      expect(() => parser.parse('SELECT * FROM FunctionDeclaration WITH SUBTYPES DEPTH 2')).toThrow(/Expected end of query/);
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration f JOIN MethodDeclaration m ON f.path = m.path WHERE CALLS 'save'"))
+        .toThrow(/Property 'calls' is ambiguous/);
+    });
+    
+    it('should parse reference filters', () => {
+      const result = parser.parse(
+        "SELECT name AS path FROM InterfaceDeclaration i WITH REFERENCES EXCLUDING DECLARATIONS WHERE kind IN ('call', 'read') OR path LIKE ?, CALLERS"
+      );
+      expect(result.referenceFilter).toEqual({
+        excludeDeclarations: true,
+        where: {
+          type: 'or',
+          operands: [
+            { type: 'condition', property: 'kind', operator: QueryOperator.IN, value: ['call', 'read'] },
+            { type: 'condition', property: 'path', operator: QueryOperator.LIKE, value: { type: 'parameter', index: 0 } }
+          ]
+        }
+      });
+      expect(result.withCallers).toBe(1);
+      expect(parser.parse('SELECT * FROM ClassDeclaration WITH REFERENCES').referenceFilter).toBeUndefined();
+      
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration c WITH REFERENCES WHERE c.name = \'A\''))
+        .toThrow(/Unknown source 'c'/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration c WITH REFERENCES WHERE path = c.path'))
+        .toThrow(/Unknown source 'c'/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WITH REFERENCES WHERE path = ClassDeclaration.path'))
+        .toThrow(/Unknown source 'ClassDeclaration'/);
+      expect(() => parser.parse(
+        'SELECT * FROM ClassDeclaration WHERE EXISTS (SELECT * FROM MethodDeclaration WITH REFERENCES WHERE path = outer.path)'
+      )).toThrow(/cannot use outer.<property>/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WITH REFERENCES EXCLUDING')).toThrow(/Expected DECLARATIONS/);
+    });
+    
     it('should parse query with multiple WHERE conditions', () => {
       const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name = 'Test' AND kind = 'ClassDeclaration'");
-      expect(result.where).toHaveLength(2);
-      expect(result.where![0].property).toBe('name');
-      expect(result.where![1].property).toBe('kind');
+      const and = result.where as LogicalExpression;
+      expect(and.type).toBe('and');
+      expect(and.operands).toHaveLength(2);
+      expect((and.operands[0] as WhereCondition).property).toBe('name');
+      expect((and.operands[1] as WhereCondition).property).toBe('kind');
+    });
+    
+    it('should parse OR with lower precedence than AND', () => {
+      const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name = 'A' OR name = 'B' AND kind = 'ClassDeclaration'");
+      const or = result.where as LogicalExpression;
+      expect(or.type).toBe('or');
+      expect(or.operands[0]).toEqual({ type: 'condition', property: 'name', operator: QueryOperator.EQUALS, value: 'A' });
+      expect(or.operands[1].type).toBe('and');
+    });
+    
+    it('should parse parentheses and NOT', () => {
+      const result = parser.parse(
+        "SELECT * FROM MethodDeclaration WHERE (name LIKE 'get%' OR name LIKE 'find%') AND NOT modifier LIKE '%private%'"
+      );
+      const and = result.where as LogicalExpression;
+      expect(and.type).toBe('and');
+      expect(and.operands[0].type).toBe('or');
+      expect((and.operands[0] as LogicalExpression).operands).toHaveLength(2);
+      const not = and.operands[1] as NotExpression;
+      expect(not.type).toBe('not');
+      expect((not.operand as WhereCondition).operator).toBe(QueryOperator.LIKE);
+    });
+    
+    it('should not split on AND inside quoted strings', () => {
+      const result = parser.parse("SELECT * FROM ClassDeclaration WHERE text LIKE '%a AND b%' AND name = 'X'");
+      const and = result.where as LogicalExpression;
+      expect(and.operands).toHaveLength(2);
+      expect((and.operands[0] as WhereCondition).value).toBe('%a AND b%');
+    });
+    
+    it('should accept lowercase keywords', () => {
+      const result = parser.parse("select * from ClassDeclaration where name = 'A' or not name like 'B%' with references");
+      expect(result.where!.type).toBe('or');
+      expect(result.withReferences).toBe(true);
     });
     
     it('should handle NOT LIKE operator', () => {
       const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name NOT LIKE 'Test%'");
-      expect(result.where![0].operator).toBe(QueryOperator.NOT_LIKE);
+      expect((result.where as WhereCondition).operator).toBe(QueryOperator.NOT_LIKE);
     });
     
     it('should handle NOT IN operator', () => {
       const result = parser.parse("SELECT * FROM ClassDeclaration WHERE name NOT IN ('A', 'B')");
-      expect(result.where![0].operator).toBe(QueryOperator.NOT_IN);
+      expect((result.where as WhereCondition).operator).toBe(QueryOperator.NOT_IN);
+    });
+    
+    it('should parse a projected column list with aliases', () => {
+      const result = parser.parse('SELECT name, path AS file, line FROM ClassDeclaration');
+      expect(result.columns).toEqual([
+        { property: 'name' },
+        { property: 'path', alias: 'file' },
+        { property: 'line' }
+      ]);
+    });
+    
+    it('should leave columns undefined for SELECT *', () => {
+      expect(parser.parse('SELECT * FROM ClassDeclaration').columns).toBeUndefined();
+    });
+    
+    it('should reject unknown and duplicate columns', () => {
+      expect(() => parser.parse('SELECT nmae FROM ClassDeclaration')).toThrow(/Did you mean 'name'/);
+      expect(() => parser.parse('SELECT name, path AS name FROM ClassDeclaration')).toThrow(/Duplicate column 'name'/);
+    });
+    
+    it('should parse ORDER BY, LIMIT and OFFSET', () => {
+      const result = parser.parse(
+        "SELECT name, line AS at FROM FunctionDeclaration WHERE name LIKE 'get%' ORDER BY path, at DESC LIMIT 10 OFFSET 20 WITH REFERENCES"
+      );
+      expect(result.orderBy).toEqual([
+        { property: 'path', direction: 'ASC' },
+        { property: 'line', direction: 'DESC' }
+      ]);
+      expect(result.limit).toBe(10);
+      expect(result.offset).toBe(20);
+      expect(result.withReferences).toBe(true);
+    });
+    
+    it('should reject non-integer LIMIT values', () => {
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration LIMIT 1.5')).toThrow(/non-negative integer/);
+      expect(() => parser.parse("SELECT * FROM ClassDeclaration LIMIT 'ten'")).toThrow(/non-negative integer/);
+    });
+    
+    it('should parse GROUP BY with aggregates and HAVING', () => {
+      const result = parser.parse(
+        "SELECT path, COUNT(*) AS total, MAX(line) FROM FunctionDeclaration GROUP BY path HAVING total != 1 AND path LIKE '%.ts' ORDER BY COUNT(*) DESC"
+      );
+      expect(result.columns).toEqual([
+        { property: 'path' },
+        { aggregate: 'COUNT', alias: 'total' },
+        { aggregate: 'MAX', property: 'line' }
+      ]);
+      expect(result.groupBy).toEqual(['path']);
+      expect(result.having).toEqual({
+        type: 'and',
+        operands: [
+          { type: 'condition', aggregate: 'COUNT', operator: QueryOperator.NOT_EQUALS, value: 1 },
+          { type: 'condition', property: 'path', operator: QueryOperator.LIKE, value: '%.ts' }
+        ]
+      });
+      expect(result.orderBy).toEqual([{ aggregate: 'COUNT', direction: 'DESC' }]);
+    });
+    
+    it('should reject ungrouped columns in grouped queries', () => {
+      expect(() => parser.parse('SELECT name, COUNT(*) FROM ClassDeclaration GROUP BY path'))
+        .toThrow(/'name' must appear in GROUP BY/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration GROUP BY path')).toThrow(/SELECT \*/);
+      expect(() => parser.parse('SELECT path FROM ClassDeclaration GROUP BY path ORDER BY name'))
+        .toThrow(/'name' must appear in GROUP BY/);
+    });
+    
+    it('should reject aggregates in WHERE and SUM over non-numeric properties', () => {
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE COUNT(*) = 1')).toThrow(/use HAVING/);
+      expect(() => parser.parse('SELECT SUM(name) FROM ClassDeclaration')).toThrow(/numeric property/);
+    });
+    
+    it('should parse case-sensitive, glob and regex operators', () => {
+      const where = (query: string) => parser.parse(`SELECT * FROM FunctionDeclaration WHERE ${query}`).where as WhereCondition;
+      expect(where("name LIKE BINARY 'get%'").operator).toBe(QueryOperator.LIKE_BINARY);
+      expect(where("name NOT LIKE BINARY 'get%'").operator).toBe(QueryOperator.NOT_LIKE_BINARY);
+      expect(where("name GLOB 'get*'").operator).toBe(QueryOperator.GLOB);
+      expect(where("name NOT GLOB 'get*'").operator).toBe(QueryOperator.NOT_GLOB);
+      expect(where("name MATCHES '/^get/i'")).toEqual({
+        type: 'condition',
+        property: 'name',
+        operator: QueryOperator.MATCHES,
+        value: '/^get/i'
+      });
+      expect(where("name NOT MATCHES 'x+'").operator).toBe(QueryOperator.NOT_MATCHES);
+    });
+    
+    it('should parse LIKE with ESCAPE', () => {
+      const condition = parser.parse("SELECT * FROM FunctionDeclaration WHERE name LIKE '!_!_%' ESCAPE '!'").where as WhereCondition;
+      expect(condition.value).toBe('!_!_%');
+      expect(condition.escape).toBe('!');
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration WHERE name LIKE 'a' ESCAPE '!!'")).toThrow(/single character/);
+    });
+    
+    it('should reject invalid regular expressions', () => {
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration WHERE name MATCHES '/(/'")).toThrow(/Invalid regular expression/);
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration WHERE name MATCHES '/a/q'")).toThrow(QuerySyntaxError);
+    });
+    
+    it('should parse comparison and BETWEEN operators with numeric values', () => {
+      const where = (query: string) => parser.parse(`SELECT * FROM FunctionDeclaration WHERE ${query}`).where as WhereCondition;
+      expect(where('lineCount > 80')).toEqual({ type: 'condition', property: 'lineCount', operator: QueryOperator.GREATER_THAN, value: 80 });
+      expect(where('paramCount >= 4').operator).toBe(QueryOperator.GREATER_THAN_OR_EQUAL);
+      expect(where('startLine < 10').operator).toBe(QueryOperator.LESS_THAN);
+      expect(where('endLine <= 10').operator).toBe(QueryOperator.LESS_THAN_OR_EQUAL);
+      expect(where("name <> 'x'").operator).toBe(QueryOperator.NOT_EQUALS);
+      expect(where('memberCount NOT BETWEEN 2 AND 4')).toEqual({
+        type: 'condition',
+        property: 'memberCount',
+        operator: QueryOperator.NOT_BETWEEN,
+        value: [2, 4]
+      });
+    });
+    
+    it('should keep BETWEEN bounds separate from logical AND', () => {
+      const result = parser.parse("SELECT * FROM FunctionDeclaration WHERE paramCount BETWEEN 1 AND 3 AND name = 'x'");
+      const and = result.where as LogicalExpression;
+      expect(and.operands).toHaveLength(2);
+      expect((and.operands[0] as WhereCondition).value).toEqual([1, 3]);
+    });
+    
+    it('should parse IN subqueries', () => {
+      const result = parser.parse(
+        "SELECT * FROM ClassDeclaration WHERE path IN (SELECT path FROM SourceFile WHERE baseName LIKE '%.service.ts')"
+      );
+      const condition = result.where as WhereCondition;
+      expect(condition.operator).toBe(QueryOperator.IN);
+      expect(condition.value).toEqual({
+        type: 'subquery',
+        query: expect.objectContaining({
+          nodeType: 'SourceFile',
+          columns: [{ property: 'path' }],
+          where: { type: 'condition', property: 'baseName', operator: QueryOperator.LIKE, value: '%.service.ts' }
+        })
+      });
+    });
+    
+    it('should parse correlated EXISTS subqueries', () => {
+      const result = parser.parse(
+        "SELECT * FROM ClassDeclaration WHERE NOT EXISTS (SELECT * FROM InterfaceDeclaration WHERE path = outer.path)"
+      );
+      const not = result.where as NotExpression;
+      expect(not.operand).toEqual({
+        type: 'exists',
+        query: expect.objectContaining({
+          nodeType: 'InterfaceDeclaration',
+          where: { type: 'condition', property: 'path', operator: QueryOperator.EQUALS, value: { type: 'outer', property: 'path' } }
+        })
+      });
+    });
+    
+    it('should reject invalid subqueries', () => {
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE name IN (SELECT * FROM InterfaceDeclaration)'))
+        .toThrow(/exactly one column/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE path = outer.path'))
+        .toThrow(/only be used inside a subquery/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE EXISTS (SELECT * FROM SourceFile WITH REFERENCES)'))
+        .toThrow(/not allowed in a subquery/);
+    });
+    
+    it('should parse joins with aliases, relations and qualified properties', () => {
+      const result = parser.parse(
+        "SELECT c.name, i.name AS iface FROM ClassDeclaration c LEFT JOIN InterfaceDeclaration AS i " +
+        "ON c IMPLEMENTS i AND c.path = i.path WHERE i.name LIKE 'I%' ORDER BY c.name"
+      );
+      expect(result.alias).toBe('c');
+      expect(result.columns).toEqual([
+        { source: 'c', property: 'name' },
+        { source: 'i', property: 'name', alias: 'iface' }
+      ]);
+      expect(result.joins).toEqual([{
+        type: 'left',
+        nodeType: 'InterfaceDeclaration',
+        alias: 'i',
+        on: {
+          type: 'and',
+          operands: [
+            { type: 'relation', left: 'c', relation: 'IMPLEMENTS', right: 'i' },
+            {
+              type: 'condition',
+              source: 'c',
+              property: 'path',
+              operator: QueryOperator.EQUALS,
+              value: { type: 'column', source: 'i', property: 'path' }
+            }
+          ]
+        }
+      }]);
+      expect(result.where).toEqual({ type: 'condition', source: 'i', property: 'name', operator: QueryOperator.LIKE, value: 'I%' });
+      expect(result.orderBy).toEqual([{ source: 'c', property: 'name', direction: 'ASC' }]);
+    });
+    
+    it('should parse parameter placeholders in values, lists and patterns', () => {
+      const result = parser.parse("SELECT * FROM FunctionDeclaration WHERE name LIKE ? AND paramCount BETWEEN ? AND 3 AND kind IN (?, 'x')");
+      const [like, between, list] = (result.where as LogicalExpression).operands as WhereCondition[];
+      expect(like.value).toEqual({ type: 'parameter', index: 0 });
+      expect(between.value).toEqual([{ type: 'parameter', index: 1 }, 3]);
+      expect(list.value).toEqual([{ type: 'parameter', index: 2 }, 'x']);
+      
+      const named = parser.parse('SELECT * FROM ClassDeclaration WHERE name NOT IN :names');
+      expect(named.where).toEqual({
+        type: 'condition',
+        property: 'name',
+        operator: QueryOperator.NOT_IN,
+        value: { type: 'parameter', name: 'names' }
+      });
+      
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration WHERE name = ? OR name = :other'))
+        .toThrow(/Cannot mix positional/);
+    });
+    
+    it('should parse parent, ancestor and sourceFile property paths', () => {
+      const result = parser.parse(
+        "SELECT name, Parent.name AS owner FROM MethodDeclaration WHERE ancestor(ClassDeclaration).name = 'A' AND sourceFile.path LIKE '%models%' GROUP BY name, parent.name"
+      );
+      expect(result.columns).toEqual([{ property: 'name' }, { property: 'parent.name', alias: 'owner' }]);
+      expect((result.where as LogicalExpression).operands.map(operand => (operand as WhereCondition).property))
+        .toEqual(['ancestor(ClassDeclaration).name', 'sourceFile.path']);
+      expect(result.groupBy).toEqual(['name', 'parent.name']);
+      
+      const joined = parser.parse('SELECT * FROM MethodDeclaration m JOIN ClassDeclaration c ON m.parent.name = c.name');
+      expect(joined.joins![0].on).toMatchObject({ source: 'm', property: 'parent.name', value: { type: 'column', source: 'c', property: 'name' } });
+    });
+    
+    it('should parse decorator names and decorator property paths', () => {
+      const result = parser.parse("SELECT * FROM MethodDeclaration WHERE decorator = 'Get' AND Decorator.args LIKE '%users%'");
+      expect((result.where as LogicalExpression).operands.map(operand => (operand as WhereCondition).property))
+        .toEqual(['decorator', 'decorator.args']);
+      expect(parser.parse('SELECT name, args FROM Decorator').nodeType).toBe('Decorator');
+    });
+    
+    it('should parse JSDoc properties and tag(<name>)', () => {
+      const result = parser.parse("SELECT name, jsdoc.tag(deprecated) FROM FunctionDeclaration WHERE hasJsDoc = 'false' OR jsdoc.tag = 'internal'");
+      expect(result.columns).toEqual([{ property: 'name' }, { property: 'jsdoc.tag(deprecated)' }]);
+      expect((result.where as LogicalExpression).operands.map(operand => (operand as WhereCondition).property))
+        .toEqual(['hasJsDoc', 'jsdoc.tag']);
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration WHERE jsdoc.tag('deprecated') = ''")).toThrow(/Expected JSDoc tag name/);
+    });
+    
+    it('should parse IS TRUE and IS FALSE on boolean properties only', () => {
+      const result = parser.parse('SELECT * FROM FunctionDeclaration WHERE isExported IS TRUE AND parent.isAsync is not false');
+      expect((result.where as LogicalExpression).operands).toEqual([
+        { type: 'condition', property: 'isExported', operator: QueryOperator.IS, value: true },
+        { type: 'condition', property: 'parent.isAsync', operator: QueryOperator.IS_NOT, value: false }
+      ]);
+      expect(() => parser.parse('SELECT * FROM FunctionDeclaration WHERE name IS TRUE')).toThrow(/require a boolean property/);
+      expect(() => parser.parse("SELECT * FROM FunctionDeclaration WHERE isAsync IS 'true'")).toThrow(/Expected TRUE or FALSE/);
+      expect(() => parser.parse('SELECT kind FROM * GROUP BY kind HAVING COUNT(*) IS TRUE')).toThrow(/require a boolean property/);
+    });
+    
+    it('should reject invalid property paths', () => {
+      expect(() => parser.parse("SELECT * FROM MethodDeclaration WHERE parent.nmae = 'A'")).toThrow(/Unknown property 'nmae'/);
+      expect(() => parser.parse("SELECT * FROM MethodDeclaration WHERE ancestor(Klass).name = 'A'")).toThrow(/Unknown node type 'Klass'/);
+      expect(() => parser.parse("SELECT * FROM MethodDeclaration WHERE ancestor(*).name = 'A'")).toThrow(/needs a node type/);
+      expect(() => parser.parse('SELECT * FROM MethodDeclaration parent')).toThrow(/reserved for property paths/);
+    });
+    
+    it('should drop the qualifier of a single aliased source', () => {
+      const result = parser.parse("SELECT c.name FROM ClassDeclaration c WHERE c.name = 'A'");
+      expect(result.columns).toEqual([{ property: 'name' }]);
+      expect(result.where).toEqual({ type: 'condition', property: 'name', operator: QueryOperator.EQUALS, value: 'A' });
+    });
+    
+    it('should reject ambiguous and unknown sources in joins', () => {
+      const join = 'FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c IMPLEMENTS i';
+      expect(() => parser.parse(`SELECT name ${join}`)).toThrow(/'name' is ambiguous in a join/);
+      expect(() => parser.parse(`SELECT x.name ${join}`)).toThrow(/Unknown source 'x'/);
+      expect(() => parser.parse(`SELECT COUNT(*) ${join}`)).toThrow(/Aggregates are not supported in join queries/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration JOIN ClassDeclaration ON name = name'))
+        .toThrow(/Duplicate source 'ClassDeclaration'/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration c WHERE c IMPLEMENTS c'))
+        .toThrow(/relates two sources of a join/);
+    });
+    
+    it('should parse views as FROM and JOIN sources', () => {
+      const view = parser.parseView("CREATE VIEW Services AS SELECT * FROM ClassDeclaration WHERE name LIKE '%Service'");
+      expect(view).toMatchObject({ name: 'Services', query: { nodeType: 'ClassDeclaration' } });
+      
+      const withViews = new QueryParser(new Map([[view.name, view.query]]));
+      const result = withViews.parse('SELECT * FROM Services s JOIN Services ON s CONTAINS Services');
+      expect(result).toMatchObject({ nodeType: 'ClassDeclaration', view: 'Services', alias: 's' });
+      expect(result.joins).toEqual([{
+        type: 'inner',
+        nodeType: 'ClassDeclaration',
+        view: 'Services',
+        on: { type: 'relation', left: 's', relation: 'CONTAINS', right: 'Services' }
+      }]);
+      expect(() => withViews.parse('SELECT * FROM Servces')).toThrow(/Did you mean 'Services'/);
+    });
+    
+    it('should parse view libraries with comments', () => {
+      const views = parser.parseLibrary(`
+        -- Classes named like services
+        CREATE VIEW Services AS SELECT * FROM ClassDeclaration WHERE name LIKE '%Service';
+        CREATE VIEW BigServices AS SELECT * FROM Services WHERE memberCount > 10;
+      `);
+      expect(views.map(view => view.name)).toEqual(['Services', 'BigServices']);
+      expect(views[1].query).toMatchObject({ nodeType: 'ClassDeclaration', view: 'Services' });
+      expect(parser.parseLibrary('  -- nothing yet\n')).toEqual([]);
+      expect(() => parser.parse('SELECT * FROM Services')).toThrow(/Unknown node type 'Services'/);
+    });
+    
+    it('should reject invalid views', () => {
+      const view = (body: string) => () => parser.parseView(`CREATE VIEW V AS ${body}`);
+      expect(view('SELECT name FROM ClassDeclaration')).toThrow(/A view must select \*/);
+      expect(view('SELECT * FROM ClassDeclaration WHERE name = ?')).toThrow(/A view cannot have parameters/);
+      expect(view('SELECT * FROM ClassDeclaration WITH REFERENCES')).toThrow(/not allowed in a view/);
+      expect(() => parser.parseView('CREATE VIEW ClassDeclaration AS SELECT * FROM ClassDeclaration'))
+        .toThrow(/is a node type/);
+      expect(() => parser.parseLibrary('CREATE VIEW V AS SELECT * FROM *; CREATE VIEW V AS SELECT * FROM *'))
+        .toThrow(/View 'V' is already defined/);
+      expect(() => parser.parseLibrary('CREATE VIEW V AS SELECT * FROM * CREATE VIEW W AS SELECT * FROM *'))
+        .toThrow(/Expected ';'/);
+    });
+    
+    it('should parse UNION, INTERSECT and EXCEPT left to right', () => {
+      const result = parser.parse(
+        'SELECT name FROM ClassDeclaration UNION ALL SELECT name FROM InterfaceDeclaration ' +
+        'EXCEPT SELECT name FROM EnumDeclaration ORDER BY name DESC LIMIT 3'
+      );
+      expect(result).toMatchObject({
+        nodeType: 'ClassDeclaration',
+        orderBy: [{ property: 'name', direction: 'DESC' }],
+        limit: 3
+      });
+      expect(result.compound!.map(part => [part.operator, part.query.nodeType])).toEqual([
+        ['UNION ALL', 'InterfaceDeclaration'],
+        ['EXCEPT', 'EnumDeclaration']
+      ]);
+      expect(result.compound![0].query.orderBy).toBeUndefined();
+    });
+    
+    it('should reject incompatible compound queries', () => {
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration UNION SELECT * FROM InterfaceDeclaration'))
+        .toThrow(/UNION cannot combine ClassDeclaration and InterfaceDeclaration nodes/);
+      expect(() => parser.parse('SELECT name FROM ClassDeclaration INTERSECT SELECT name, path FROM ClassDeclaration'))
+        .toThrow(/must each select 1 column/);
+      expect(() => parser.parse('SELECT * FROM ClassDeclaration ORDER BY name UNION SELECT * FROM ClassDeclaration'))
+        .toThrow(/must follow the last query combined by UNION/);
+      expect(() => parser.parse('SELECT name FROM ClassDeclaration UNION SELECT name FROM * ORDER BY path'))
+        .toThrow(/must name one of its columns/);
+      expect(() => parser.parse(
+        'SELECT * FROM ClassDeclaration WHERE name IN (SELECT name FROM * EXCEPT SELECT name FROM EnumDeclaration)'
+      )).toThrow(/EXCEPT is not supported in subqueries/);
     });
     
     it('should throw error for invalid query', () => {
       expect(() => parser.parse('INVALID QUERY')).toThrow();
     });
+    
+    it('should throw on unbalanced parentheses', () => {
+      expect(() => parser.parse("SELECT * FROM ClassDeclaration WHERE (name = 'A' OR name = 'B'")).toThrow();
+    });
+    
+    it('should throw on trailing input', () => {
+      expect(() => parser.parse("SELECT * FROM ClassDeclaration WHERE name = 'A' name")).toThrow();
+    });
+  });
+  
+  describe('syntax errors', () => {
+    const parseError = (query: string): QuerySyntaxError => {
+      try {
+        parser.parse(query);
+      } catch (error) {
+        return error as QuerySyntaxError;
+      }
+      throw new Error('expected parse to fail');
+    };
+    
+    it('should reject unknown properties with a suggestion and position', () => {
+      const error = parseError("SELECT * FROM ClassDeclaration WHERE nmae = 'User'");
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect(error.token).toBe('nmae');
+      expect(error.offset).toBe(37);
+      expect(error.line).toBe(1);
+      expect(error.column).toBe(38);
+      expect(error.suggestions).toEqual(['name']);
+      expect(error.message).toContain("Did you mean 'name'?");
+      expect(error.message).toContain(`\n  ${' '.repeat(37)}^^^^`);
+    });
+    
+    it('should reject unknown node types with a suggestion', () => {
+      const error = parseError('SELECT * FROM ClassDeclarations');
+      expect(error.reason).toBe("Unknown node type 'ClassDeclarations'");
+      expect(error.suggestions[0]).toBe('ClassDeclaration');
+    });
+    
+    it('should reject unparsable conditions', () => {
+      const error = parseError("SELECT * FROM ClassDeclaration WHERE name == 'User'");
+      expect(error.token).toBe('=');
+      expect(error.column).toBe(44);
+    });
+    
+    it('should report line and column in multi-line queries', () => {
+      const error = parseError("SELECT *\nFROM ClassDeclaration\nWHERE name LIKE");
+      expect(error.line).toBe(3);
+      expect(error.column).toBe(16);
+      expect(error.token).toBe('');
+      expect(error.reason).toBe('Expected quoted string but found end of query');
+    });
+    
+    it('should report lexer errors as syntax errors', () => {
+      const error = parseError("SELECT * FROM ClassDeclaration WHERE name = 'User");
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect(error.offset).toBe(44);
+    });
   });
   
   describe('validate', () => {
@@ -77,5 +583,12 @@ describe('QueryParser', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toBeDefined();
     });
+    
+    it('should expose the structured syntax error', () => {
+      const result = parser.validate("SELECT * FROM InterfaceDeclaration WHERE knd = 'x'");
+      expect(result.valid).toBe(false);
+      expect(result.syntaxError).toBeInstanceOf(QuerySyntaxError);
+      expect(result.syntaxError!.suggestions).toContain('kind');
+    });
   });
 });
@@ -1,124 +1,1332 @@
-import { ParsedQuery, NodeType, QueryOperator, WhereCondition, QueryProperty } from './types';
+import {
+  ParsedQuery,
+  NodeType,
+  QueryOperator,
+  WhereCondition,
+  PropertyName,
+  PropertyPath,
+  PATH_STEPS,
+  SelectColumn,
+  AggregateColumn,
+  AggregateCondition,
+  AggregateExpression,
+  AggregateFunction,
+  BooleanExpression,
+  ConditionValue,
+  OrderByItem,
+  AggregateOrderByItem,
+  AGGREGATE_FUNCTIONS,
+  NODE_TYPES,
+  SYNTAX_KIND_NAMES,
+  NUMERIC_PROPERTIES,
+  BOOLEAN_PROPERTIES,
+  QUERY_PROPERTIES,
+  Operand,
+  ExistsCondition,
+  OuterReference,
+  ColumnReference,
+  PropertyReference,
+  RelationCondition,
+  JoinClause,
+  JoinRelation,
+  JOIN_RELATIONS,
+  Parameter,
+  ViewDefinition,
+  CompoundPart,
+  SetOperator,
+  SET_OPERATORS,
+  QueryExpansion,
+  QUERY_EXPANSIONS,
+  DEPTH_EXPANSIONS,
+  ReferenceFilter
+} from './types';
+import { QueryLexer, Token, TokenType } from './lexer';
+import { QuerySyntaxError, suggest } from './errors';
+import { CLAUSE_KEYWORDS, columnLabel, isAggregate, pathProperty, sameOperand } from './values';
+import { parseRegexLiteral } from './patterns';
+
+/**
+ * Comparison operators written as symbols
+ */
+const ORDERING_OPERATORS = [
+  QueryOperator.LESS_THAN,
+  QueryOperator.LESS_THAN_OR_EQUAL,
+  QueryOperator.GREATER_THAN,
+  QueryOperator.GREATER_THAN_OR_EQUAL
+];
+
+/**
+ * Accepted node type names, the dedicated ones first so that they lead suggestions
+ */
+const NODE_TYPE_NAMES: readonly string[] = [...new Set<string>([...NODE_TYPES, ...SYNTAX_KIND_NAMES])];
+
+/**
+ * Names visible to property references of one SELECT
+ */
+interface Scope {
+  /** Source names (alias or node type) of the FROM clause; undefined while the SELECT list is parsed */
+  sources?: string[];
+  /** Whether the FROM clause has joins, in which case properties must be qualified */
+  joined: boolean;
+  /** Set for a reference filter, which has no row of the query around it to read outer values from */
+  isolated?: boolean;
+}
 
 /**
  * Parses SQL-like query strings into structured query objects
- * 
+ *
  * Supported syntax:
- * - SELECT * FROM <NodeType> [WHERE <conditions>] [WITH REFERENCES]
- * - WHERE conditions: name = 'value', name LIKE 'pattern', name IN ('a', 'b')
+ * - SELECT <* | column [AS alias], ...> FROM <NodeType> [alias]
+ *   [[INNER | LEFT [OUTER]] JOIN <NodeType> [alias] ON <expression> ...] [WHERE <expression>]
+ *   [GROUP BY <property>, ... [HAVING <expression>]]
+ *   [ORDER BY <property> [ASC|DESC], ...] [LIMIT n] [OFFSET m]
+ *   [WITH REFERENCES [EXCLUDING DECLARATIONS] [WHERE <expression>] | SUBTYPES | SUPERTYPES
+ *     | CALLERS [DEPTH n] | CALLEES [DEPTH n] | DEPENDENCIES [DEPTH n], ...]
+ * - WHERE conditions: name = 'value', name LIKE 'pattern' [ESCAPE 'c'], name LIKE BINARY 'Pattern',
+ *   name GLOB 'get*', name MATCHES '/regex/flags', name IN ('a', 'b'),
+ *   lineCount > 80, paramCount BETWEEN 2 AND 4, isExported IS TRUE, CALLS 'save', CALLED BY 'main'
+ * - Node types: the names in NODE_TYPES or any other SyntaxKind name, such as ArrowFunction
+ * - Conditions combine with AND, OR, NOT and parentheses (NOT binds tightest, then AND, then OR)
+ * - Subqueries: name IN (SELECT name FROM ...), EXISTS (SELECT * FROM ... WHERE path = outer.path)
+ * - Aggregates: COUNT(*), COUNT(property), MIN, MAX, SUM and AVG (SUM/AVG over numeric properties)
+ * - Strings escape their quote character by doubling it: 'it''s'
+ * - Parameters: ? and :name in place of any value, list or pattern, bound with bindParameters
+ * - Property paths: parent.name, ancestor(ClassDeclaration).name, sourceFile.path
+ * - Joins: properties are qualified with a source (c.name) and sources relate with
+ *   c IMPLEMENTS i, c EXTENDS b, c INHERITS b, c CONTAINS m and f USES t, or compare properties
+ *   (c.path = i.path)
+ * - Views: CREATE VIEW <name> AS SELECT * ..., after which <name> can be used like a node type in
+ *   FROM and JOIN; a library is a list of CREATE VIEW statements separated by `;`
+ * - Compound queries: SELECT ... UNION [ALL] | INTERSECT | EXCEPT SELECT ..., left to right,
+ *   followed by ORDER BY, LIMIT, OFFSET and WITH for the combined result
+ * - Comments: -- to the end of the line
  */
 export class QueryParser {
+  private query = '';
+  private tokens: Token[] = [];
+  private position = 0;
+  /** First token of each parsed column, for errors reported after the column was read */
+  private columnTokens = new Map<SelectColumn | AggregateColumn, Token>();
+  /** Nesting level of the SELECT being parsed; 0 for the outermost query */
+  private subqueryDepth = 0;
+  /** Scopes of the SELECTs being parsed, innermost last */
+  private scopes: Scope[] = [];
+  /** Number of `?` placeholders read so far */
+  private positionalParameters = 0;
+  /** Placeholder style of the query, which must not mix `?` and `:name` */
+  private parameterStyle?: 'positional' | 'named';
+  /** Whether a CREATE VIEW statement is being parsed */
+  private inView = false;
+  /** Views defined earlier in the library being parsed */
+  private libraryViews = new Map<string, ParsedQuery>();
+
+  /**
+   * @param views Views that queries may select from, by name
+   */
+  constructor(private readonly views: ReadonlyMap<string, ParsedQuery> = new Map()) {}
+
   /**
    * Parse a SQL-like query string
    * @param query The query string to parse
    * @returns Parsed query object
+   * @throws QuerySyntaxError if the query is malformed or names an unknown node type or property
    */
   parse(query: string): ParsedQuery {
-    const normalized = query.trim().replace(/\s+/g, ' ');
-    
-    // Check for WITH REFERENCES
-    const withReferences = /WITH\s+REFERENCES/i.test(normalized);
-    const queryWithoutReferences = normalized.replace(/WITH\s+REFERENCES/i, '').trim();
-    
-    // Extract FROM clause
-    const fromMatch = queryWithoutReferences.match(/FROM\s+(\w+)/i);
-    if (!fromMatch) {
-      throw new Error('Invalid query: missing FROM clause');
-    }
-    const nodeType = fromMatch[1] as NodeType;
-    
-    // Extract WHERE clause if present
-    const whereMatch = queryWithoutReferences.match(/WHERE\s+(.+?)$/i);
-    const whereConditions = whereMatch ? this.parseWhereClause(whereMatch[1]) : undefined;
-    
+    this.start(query);
+    const parsed = this.parseSelect();
+    this.expectEnd();
+    return parsed;
+  }
+
+  /**
+   * Parse either a query or a CREATE VIEW statement
+   * @throws QuerySyntaxError if the statement is malformed
+   */
+  parseStatement(statement: string): ParsedQuery | ViewDefinition {
+    this.start(statement);
+    const parsed = this.isKeyword(this.peek(), 'CREATE') ? this.parseCreateView() : this.parseSelect();
+    this.expectEnd();
+    return parsed;
+  }
+
+  /**
+   * Parse a CREATE VIEW statement
+   * @throws QuerySyntaxError if the statement is malformed, the name is taken or the query cannot be a view
+   */
+  parseView(statement: string): ViewDefinition {
+    this.start(statement);
+    const view = this.parseCreateView();
+    this.expectEnd();
+    return view;
+  }
+
+  /**
+   * Parse a library of CREATE VIEW statements separated by `;`, as stored in `.tsquery` files
+   *
+   * A view may select from the views defined before it in the library.
+   * @throws QuerySyntaxError if any statement is malformed
+   */
+  parseLibrary(library: string): ViewDefinition[] {
+    this.start(library);
+    const views: ViewDefinition[] = [];
+    try {
+      while (this.peek().type !== TokenType.EOF) {
+        if (this.matchSymbol(';')) {
+          continue;
+        }
+        const view = this.parseCreateView();
+        this.libraryViews.set(view.name, view.query);
+        views.push(view);
+        if (this.peek().type !== TokenType.EOF) {
+          this.expectSymbol(';');
+        }
+      }
+      return views;
+    } finally {
+      this.libraryViews.clear();
+    }
+  }
+
+  private start(text: string): void {
+    this.query = text;
+    this.tokens = new QueryLexer(text).tokenize();
+    this.position = 0;
+    this.subqueryDepth = 0;
+    this.scopes = [];
+    this.positionalParameters = 0;
+    this.parameterStyle = undefined;
+    this.inView = false;
+    this.columnTokens.clear();
+  }
+
+  private expectEnd(): void {
+    if (this.peek().type !== TokenType.EOF) {
+      throw this.unexpected('end of query');
+    }
+  }
+
+  /**
+   * Parse `CREATE VIEW <name> AS SELECT * ...`
+   */
+  private parseCreateView(): ViewDefinition {
+    this.expectKeyword('CREATE');
+    this.expectKeyword('VIEW');
+    const nameToken = this.peek();
+    const name = this.expectIdentifier('view name');
+    if (NODE_TYPE_NAMES.includes(name)) {
+      throw this.error(`'${name}' is a node type and cannot name a view`, nameToken);
+    }
+    if (this.isKeyword(nameToken, 'OUTER') || PATH_STEPS.some(step => this.isKeyword(nameToken, step.toUpperCase()))) {
+      throw this.error(`'${name}' is reserved and cannot name a view`, nameToken);
+    }
+    if (this.findView(name)) {
+      throw this.error(`View '${name}' is already defined`, nameToken);
+    }
+    this.expectKeyword('AS');
+
+    this.inView = true;
+    const query = this.parseSelect();
+    this.inView = false;
+    if (query.columns) {
+      throw this.error(
+        'A view must select * so that it can be used as a FROM source',
+        this.columnTokens.get(query.columns[0])!
+      );
+    }
+    return { name, query };
+  }
+
+  private findView(name: string): ParsedQuery | undefined {
+    return this.libraryViews.get(name) ?? this.views.get(name);
+  }
+
+  /**
+   * Parse one SELECT statement, either the whole query or a parenthesized subquery, with the
+   * queries it is combined with by UNION, INTERSECT or EXCEPT
+   */
+  private parseSelect(): ParsedQuery {
+    const first = this.parseSelectCore();
+    const compound = this.parseCompound(first.query);
+
+    // ORDER BY and friends of a compound query apply to its combined result
+    this.scopes.push(compound ? { sources: [], joined: false } : first.scope);
+    let orderBy: Array<OrderByItem | AggregateOrderByItem> | undefined;
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      orderBy = compound
+        ? this.parseCompoundOrderBy(first.query, first.scope)
+        : this.parseOrderBy(first.query.columns, first.grouped ? first.query.groupBy ?? [] : undefined);
+    }
+
+    const limit = this.matchKeyword('LIMIT') ? this.expectCount() : undefined;
+    const offset = this.matchKeyword('OFFSET') ? this.expectCount() : undefined;
+
+    // Each expansion with the depth given by DEPTH n, if any
+    const expansions = new Map<QueryExpansion, number | undefined>();
+    let referenceFilter: ReferenceFilter | undefined;
+    const withToken = this.peek();
+    if (this.matchKeyword('WITH')) {
+      do {
+        const token = this.peek();
+        const expansion = token.value.toUpperCase() as QueryExpansion;
+        if (token.type !== TokenType.IDENTIFIER || !QUERY_EXPANSIONS.includes(expansion)) {
+          throw this.unexpected(`expansion (${QUERY_EXPANSIONS.join(', ')})`);
+        }
+        if (expansions.has(expansion)) {
+          throw this.error(`WITH ${expansion} is given twice`, token);
+        }
+        this.advance();
+        expansions.set(expansion, DEPTH_EXPANSIONS.includes(expansion) ? this.parseDepth() : undefined);
+        if (expansion === 'REFERENCES') {
+          referenceFilter = this.parseReferenceFilter();
+        }
+      } while (this.matchSymbol(','));
+
+      const clause = `WITH ${[...expansions.keys()].join(', ')}`;
+      if (this.subqueryDepth > 0) {
+        throw this.error(`${clause} is not allowed in a subquery`, withToken);
+      }
+      if (this.inView) {
+        throw this.error(`${clause} is not allowed in a view`, withToken);
+      }
+    }
+    this.scopes.pop();
+
+    const misplaced = this.peek();
+    if (this.isSetOperator(misplaced)) {
+      throw this.error(
+        `ORDER BY, LIMIT, OFFSET and WITH must follow the last query combined by ${misplaced.value.toUpperCase()}`,
+        misplaced
+      );
+    }
+
     return {
+      ...first.query,
+      compound,
+      orderBy,
+      limit,
+      offset,
+      withReferences: expansions.has('REFERENCES'),
+      referenceFilter,
+      withSubtypes: expansions.has('SUBTYPES') || undefined,
+      withSupertypes: expansions.has('SUPERTYPES') || undefined,
+      withCallers: expansions.has('CALLERS') ? expansions.get('CALLERS') ?? 1 : undefined,
+      withCallees: expansions.has('CALLEES') ? expansions.get('CALLEES') ?? 1 : undefined,
+      withDependencies: expansions.has('DEPENDENCIES') ? { depth: expansions.get('DEPENDENCIES') } : undefined
+    };
+  }
+
+  /**
+   * Parse the optional `EXCLUDING DECLARATIONS` and `WHERE <expression>` after WITH REFERENCES; the
+   * expression tests each reference on its own, so it cannot name the query's sources
+   */
+  private parseReferenceFilter(): ReferenceFilter | undefined {
+    const excludeDeclarations = this.matchKeyword('EXCLUDING');
+    if (excludeDeclarations) {
+      this.expectKeyword('DECLARATIONS');
+    }
+    if (!this.matchKeyword('WHERE')) {
+      return excludeDeclarations ? { excludeDeclarations } : undefined;
+    }
+
+    this.scopes.push({ sources: [], joined: false, isolated: true });
+    const where = this.parseOrExpression(() => this.parseCondition());
+    this.scopes.pop();
+    return { excludeDeclarations, where };
+  }
+
+  /**
+   * Parse the optional `DEPTH n` of an expansion that follows a graph
+   */
+  private parseDepth(): number | undefined {
+    if (!this.matchKeyword('DEPTH')) {
+      return undefined;
+    }
+    const token = this.peek();
+    const depth = this.expectCount();
+    if (depth === 0) {
+      throw this.error('DEPTH must be at least 1', token);
+    }
+    return depth;
+  }
+
+  /**
+   * Parse a SELECT statement up to and including HAVING
+   * @returns The query without ORDER BY, LIMIT, OFFSET and WITH, the scope of its sources
+   *   and whether it is grouped
+   */
+  private parseSelectCore(): { query: ParsedQuery; scope: Scope; grouped: boolean } {
+    const selectToken = this.peek();
+    this.expectKeyword('SELECT');
+    const scope: Scope = { joined: false };
+    this.scopes.push(scope);
+    const columns = this.parseColumns();
+
+    if (!this.matchKeyword('FROM')) {
+      throw this.error('Missing FROM clause', this.peek());
+    }
+    const { nodeType, view } = this.parseSource();
+    scope.sources = [];
+    const alias = this.parseSourceAlias(view ?? nodeType, scope);
+    const joins = this.parseJoins(scope);
+    this.resolveColumns(columns, scope);
+
+    const where = this.matchKeyword('WHERE')
+      ? this.parseOrExpression(() => this.parseCondition())
+      : undefined;
+
+    let groupBy: PropertyPath[] | undefined;
+    const groupToken = this.peek();
+    if (this.matchKeyword('GROUP')) {
+      this.rejectInJoin(scope, 'GROUP BY is', groupToken);
+      this.expectKeyword('BY');
+      groupBy = [this.parsePropertyReference().property];
+      while (this.matchSymbol(',')) {
+        groupBy.push(this.parsePropertyReference().property);
+      }
+    }
+
+    const havingToken = this.peek();
+    if (this.isKeyword(havingToken, 'HAVING')) {
+      this.rejectInJoin(scope, 'HAVING is', havingToken);
+    }
+    const having = this.matchKeyword('HAVING')
+      ? this.parseOrExpression(() => this.parseHavingCondition(columns, groupBy ?? []))
+      : undefined;
+
+    const grouped = groupBy !== undefined || having !== undefined || (columns ?? []).some(isAggregate);
+    if (grouped) {
+      this.checkGroupedColumns(columns, groupBy ?? [], selectToken);
+    }
+
+    this.scopes.pop();
+    const query: ParsedQuery = {
+      columns,
       nodeType,
-      where: whereConditions,
-      withReferences
+      view,
+      alias,
+      joins,
+      where,
+      groupBy,
+      having,
+      compound: undefined,
+      orderBy: undefined,
+      limit: undefined,
+      offset: undefined,
+      withReferences: false
     };
+    return { query, scope, grouped };
   }
-  
+
   /**
-   * Parse WHERE clause into conditions
+   * Parse the queries combined with the first one by UNION [ALL], INTERSECT or EXCEPT, left to right
+   *
+   * Combined queries must either all select * from one node type (or `*`), or all select the same
+   * number of columns, in which case they may select from different node types.
    */
-  private parseWhereClause(whereClause: string): WhereCondition[] {
-    const conditions: WhereCondition[] = [];
-    
-    // Split by AND (simple implementation, doesn't handle OR yet)
-    const parts = whereClause.split(/\s+AND\s+/i);
-    
-    for (const part of parts) {
-      const condition = this.parseCondition(part.trim());
-      if (condition) {
-        conditions.push(condition);
+  private parseCompound(first: ParsedQuery): CompoundPart[] | undefined {
+    const parts: CompoundPart[] = [];
+    while (this.isSetOperator(this.peek())) {
+      const operatorToken = this.advance();
+      if (this.subqueryDepth > 0) {
+        throw this.error(`${operatorToken.value.toUpperCase()} is not supported in subqueries`, operatorToken);
       }
+      let operator = operatorToken.value.toUpperCase() as SetOperator;
+      if (operator === 'UNION' && this.matchKeyword('ALL')) {
+        operator = 'UNION ALL';
+      }
+
+      const { query } = this.parseSelectCore();
+      if (!first.columns !== !query.columns || (first.columns && first.columns.length !== query.columns!.length)) {
+        throw this.error(
+          first.columns
+            ? `Queries combined by ${operator} must each select ${first.columns.length} column${first.columns.length === 1 ? '' : 's'}`
+            : `Queries combined by ${operator} must each select *`,
+          operatorToken
+        );
+      }
+      if (!first.columns && first.nodeType !== query.nodeType && first.nodeType !== '*' && query.nodeType !== '*') {
+        throw this.error(
+          `${operator} cannot combine ${first.nodeType} and ${query.nodeType} nodes; select the same columns from both queries instead`,
+          operatorToken
+        );
+      }
+      parts.push({ operator, query });
     }
-    
-    return conditions;
+    return parts.length > 0 ? parts : undefined;
   }
-  
+
   /**
-   * Parse a single condition
+   * Parse the ORDER BY keys of a compound query: when the queries select columns, each key must be one
+   * of the first query's columns (by alias or expression); otherwise keys are properties of the nodes
    */
-  private parseCondition(condition: string): WhereCondition | null {
-    // Handle IN operator: name IN ('a', 'b', 'c')
-    const inMatch = condition.match(/(\w+)\s+(NOT\s+)?IN\s+\((.+?)\)/i);
-    if (inMatch) {
-      const property = inMatch[1] as QueryProperty;
-      const isNot = !!inMatch[2];
-      const values = inMatch[3]
-        .split(',')
-        .map(v => v.trim().replace(/^['"]|['"]$/g, ''));
-      
-      return {
-        property,
-        operator: isNot ? QueryOperator.NOT_IN : QueryOperator.IN,
-        value: values
-      };
+  private parseCompoundOrderBy(first: ParsedQuery, firstScope: Scope): Array<OrderByItem | AggregateOrderByItem> {
+    const columns = first.columns;
+    if (columns) {
+      this.scopes.push(firstScope);
     }
-    
-    // Handle LIKE operator: name LIKE 'pattern%'
-    const likeMatch = condition.match(/(\w+)\s+(NOT\s+)?LIKE\s+['"](.+?)['"]/i);
-    if (likeMatch) {
-      const property = likeMatch[1] as QueryProperty;
-      const isNot = !!likeMatch[2];
-      const value = likeMatch[3];
-      
-      return {
-        property,
-        operator: isNot ? QueryOperator.NOT_LIKE : QueryOperator.LIKE,
-        value
-      };
+    const items: Array<OrderByItem | AggregateOrderByItem> = [];
+    do {
+      const token = this.peek();
+      const operand = columns
+        ? this.resolveAlias(columns) ?? this.parseOperand(true)
+        : this.parsePropertyReference();
+      if (columns && !columns.some(column => sameOperand(column, operand))) {
+        throw this.error('ORDER BY of a compound query must name one of its columns', token);
+      }
+
+      let direction: 'ASC' | 'DESC' = 'ASC';
+      if (this.matchKeyword('DESC')) {
+        direction = 'DESC';
+      } else {
+        this.matchKeyword('ASC');
+      }
+      items.push({ ...operand, direction });
+    } while (this.matchSymbol(','));
+
+    if (columns) {
+      this.scopes.pop();
+    }
+    return items;
+  }
+
+  private isSetOperator(token: Token): boolean {
+    return SET_OPERATORS.some(operator => operator !== 'UNION ALL' && this.isKeyword(token, operator));
+  }
+
+  /**
+   * Parse the SELECT list: `*` or a comma-separated list of properties and aggregates with optional aliases
+   */
+  private parseColumns(): Array<SelectColumn | AggregateColumn> | undefined {
+    if (this.matchSymbol('*')) {
+      return undefined;
+    }
+
+    const columns: Array<SelectColumn | AggregateColumn> = [];
+    const outputNames = new Set<string>();
+    do {
+      const startToken = this.peek();
+      let nameToken = startToken;
+      const operand = this.parseOperand(true);
+      let column: SelectColumn | AggregateColumn = operand;
+      if (this.matchKeyword('AS')) {
+        nameToken = this.peek();
+        column = { ...operand, alias: this.expectIdentifier('column alias') };
+      }
+
+      const outputName = columnLabel(column);
+      if (outputNames.has(outputName)) {
+        throw this.error(`Duplicate column '${outputName}'`, nameToken);
+      }
+      outputNames.add(outputName);
+      this.columnTokens.set(column, startToken);
+      columns.push(column);
+    } while (this.matchSymbol(','));
+
+    return columns;
+  }
+
+  /**
+   * In grouped queries every plain column must be a GROUP BY property
+   */
+  private checkGroupedColumns(
+    columns: Array<SelectColumn | AggregateColumn> | undefined,
+    groupBy: PropertyPath[],
+    selectToken: Token
+  ): void {
+    if (!columns) {
+      throw this.error('SELECT * cannot be combined with GROUP BY, HAVING or aggregates', selectToken);
+    }
+    for (const column of columns) {
+      if (!isAggregate(column)) {
+        this.requireGrouped(column.property, groupBy, this.columnTokens.get(column)!);
+      }
+    }
+  }
+
+  /**
+   * Parse the optional alias of a FROM or JOIN source and register the source in the scope
+   * @param source Node type or view name, which names the source when it has no alias
+   */
+  private parseSourceAlias(source: string, scope: Scope): string | undefined {
+    const explicit = this.matchKeyword('AS');
+    const token = this.peek();
+    let alias: string | undefined;
+    if (
+      explicit ||
+      (token.type === TokenType.IDENTIFIER && !CLAUSE_KEYWORDS.some(keyword => this.isKeyword(token, keyword)))
+    ) {
+      alias = this.expectIdentifier('source alias');
+      if (this.isKeyword(token, 'OUTER')) {
+        throw this.error("'outer' is reserved for references to the enclosing query", token);
+      }
+      if (PATH_STEPS.some(step => this.isKeyword(token, step.toUpperCase()))) {
+        throw this.error(`'${alias}' is reserved for property paths`, token);
+      }
+    }
+
+    const name = alias ?? source;
+    if (scope.sources!.includes(name)) {
+      throw this.error(`Duplicate source '${name}'; give each joined node type its own alias`, alias ? token : this.peekAt(-1));
+    }
+    scope.sources!.push(name);
+    return alias;
+  }
+
+  /**
+   * Parse JOIN clauses following the FROM source
+   */
+  private parseJoins(scope: Scope): JoinClause[] | undefined {
+    const joins: JoinClause[] = [];
+    while (true) {
+      let type: 'inner' | 'left' = 'inner';
+      if (this.matchKeyword('LEFT')) {
+        this.matchKeyword('OUTER');
+        this.expectKeyword('JOIN');
+        type = 'left';
+      } else if (this.matchKeyword('INNER')) {
+        this.expectKeyword('JOIN');
+      } else if (!this.matchKeyword('JOIN')) {
+        break;
+      }
+
+      const { nodeType, view } = this.parseSource();
+      const alias = this.parseSourceAlias(view ?? nodeType, scope);
+      scope.joined = true;
+      this.expectKeyword('ON');
+      const on = this.parseOrExpression(() => this.parseCondition());
+      joins.push({
+        type,
+        nodeType,
+        ...(view !== undefined ? { view } : {}),
+        ...(alias !== undefined ? { alias } : {}),
+        on
+      });
+    }
+    return joins.length > 0 ? joins : undefined;
+  }
+
+  /**
+   * Check the sources of SELECT list properties, which are parsed before the FROM clause names them
+   */
+  private resolveColumns(columns: Array<SelectColumn | AggregateColumn> | undefined, scope: Scope): void {
+    for (const column of columns ?? []) {
+      const token = this.columnTokens.get(column)!;
+      if (isAggregate(column)) {
+        this.rejectInJoin(scope, 'Aggregates are', token);
+        continue;
+      }
+      if (column.source === undefined) {
+        if (scope.joined) {
+          throw this.ambiguous(column.property, scope, token);
+        }
+        continue;
+      }
+      if (!scope.sources!.includes(column.source)) {
+        throw this.error(`Unknown source '${column.source}'`, token, suggest(column.source, scope.sources!));
+      }
+      if (!scope.joined) {
+        delete column.source;
+      }
+    }
+  }
+
+  private rejectInJoin(scope: Scope, subject: string, token: Token): void {
+    if (scope.joined) {
+      throw this.error(`${subject} not supported in join queries`, token);
+    }
+  }
+
+  private ambiguous(property: PropertyPath, scope: Scope, token: Token): QuerySyntaxError {
+    return this.error(
+      `Property '${property}' is ambiguous in a join; qualify it with a source (${scope.sources!.join(', ')})`,
+      token
+    );
+  }
+
+  private requireGrouped(property: PropertyPath, groupBy: PropertyPath[], token: Token): void {
+    if (!groupBy.includes(property)) {
+      throw this.error(`Property '${property}' must appear in GROUP BY or be used in an aggregate`, token);
+    }
+  }
+
+  /**
+   * Parse ORDER BY keys; a key may name a property, an aggregate or a column alias from the SELECT list
+   * @param groupBy GROUP BY properties when the query is grouped, undefined otherwise
+   */
+  private parseOrderBy(
+    columns: Array<SelectColumn | AggregateColumn> | undefined,
+    groupBy: PropertyPath[] | undefined
+  ): Array<OrderByItem | AggregateOrderByItem> {
+    const items: Array<OrderByItem | AggregateOrderByItem> = [];
+    do {
+      const token = this.peek();
+      const operand = this.resolveAlias(columns) ?? this.parseOperand(groupBy !== undefined);
+      if (groupBy && !isAggregate(operand)) {
+        this.requireGrouped(operand.property, groupBy, token);
+      }
+
+      let direction: 'ASC' | 'DESC' = 'ASC';
+      if (this.matchKeyword('DESC')) {
+        direction = 'DESC';
+      } else {
+        this.matchKeyword('ASC');
+      }
+      items.push({ ...operand, direction });
+    } while (this.matchSymbol(','));
+
+    return items;
+  }
+
+  /**
+   * Consume an identifier naming a SELECT alias and return the aliased expression
+   */
+  private resolveAlias(columns: Array<SelectColumn | AggregateColumn> | undefined): Operand | undefined {
+    const token = this.peek();
+    if (token.type !== TokenType.IDENTIFIER || this.peekAt(1).value === '(') {
+      return undefined;
+    }
+    const column = columns?.find(c => c.alias === token.value);
+    if (!column) {
+      return undefined;
+    }
+    this.advance();
+    const { alias, ...operand } = column;
+    return operand;
+  }
+
+  /**
+   * Parse a property name or, where allowed, an aggregate call such as COUNT(*) or AVG(line)
+   */
+  private parseOperand(allowAggregates: boolean): Operand {
+    const token = this.peek();
+    const aggregate = token.value.toUpperCase() as AggregateFunction;
+    if (
+      token.type !== TokenType.IDENTIFIER ||
+      !AGGREGATE_FUNCTIONS.includes(aggregate) ||
+      this.peekAt(1).value !== '('
+    ) {
+      return this.parsePropertyReference();
+    }
+
+    if (!allowAggregates) {
+      throw this.error(`Aggregate ${aggregate} is not allowed here; use HAVING to filter groups`, token);
+    }
+    this.advance();
+    this.expectSymbol('(');
+
+    let expression: AggregateExpression;
+    if (aggregate === 'COUNT' && this.matchSymbol('*')) {
+      expression = { aggregate };
+    } else {
+      const propertyToken = this.peek();
+      const { property } = this.parsePropertyReference();
+      if ((aggregate === 'SUM' || aggregate === 'AVG') && !NUMERIC_PROPERTIES.includes(pathProperty(property))) {
+        throw this.error(
+          `${aggregate} requires a numeric property (${NUMERIC_PROPERTIES.join(', ')})`,
+          propertyToken
+        );
+      }
+      expression = { aggregate, property };
+    }
+
+    this.expectSymbol(')');
+    return expression;
+  }
+
+  /**
+   * Parse a FROM or JOIN target: a view name, a node type name or `*`
+   */
+  private parseSource(): { nodeType: NodeType; view?: string } {
+    const token = this.peek();
+    const view = token.type === TokenType.IDENTIFIER ? this.findView(token.value) : undefined;
+    if (view) {
+      this.advance();
+      return { nodeType: view.nodeType, view: token.value };
+    }
+    const viewNames = [...this.views.keys(), ...this.libraryViews.keys()];
+    return { nodeType: this.parseNodeType(viewNames) };
+  }
+
+  /**
+   * Parse a node type name or `*`
+   * @param alternatives Other accepted names, offered as suggestions for unknown names
+   */
+  private parseNodeType(alternatives: string[] = []): NodeType {
+    if (this.matchSymbol('*')) {
+      return '*';
+    }
+
+    const token = this.peek();
+    const name = this.expectIdentifier('node type');
+    if (!NODE_TYPE_NAMES.includes(name)) {
+      throw this.error(`Unknown node type '${name}'`, token, suggest(name, [...NODE_TYPE_NAMES, ...alternatives]));
     }
-    
+    return name as NodeType;
+  }
+
+  /**
+   * or_expression := and_expression (OR and_expression)*
+   */
+  private parseOrExpression<C>(parseLeaf: () => C): BooleanExpression<C> {
+    const operands = [this.parseAndExpression(parseLeaf)];
+    while (this.matchKeyword('OR')) {
+      operands.push(this.parseAndExpression(parseLeaf));
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  /**
+   * and_expression := not_expression (AND not_expression)*
+   */
+  private parseAndExpression<C>(parseLeaf: () => C): BooleanExpression<C> {
+    const operands = [this.parseNotExpression(parseLeaf)];
+    while (this.matchKeyword('AND')) {
+      operands.push(this.parseNotExpression(parseLeaf));
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  /**
+   * not_expression := NOT not_expression | '(' or_expression ')' | condition
+   */
+  private parseNotExpression<C>(parseLeaf: () => C): BooleanExpression<C> {
+    if (this.matchKeyword('NOT')) {
+      return { type: 'not', operand: this.parseNotExpression(parseLeaf) };
+    }
+
+    if (this.matchSymbol('(')) {
+      const expression = this.parseOrExpression(parseLeaf);
+      this.expectSymbol(')');
+      return expression;
+    }
+
+    return parseLeaf();
+  }
+
+  /**
+   * Parse a single WHERE condition or EXISTS (SELECT ...) predicate
+   */
+  private parseCondition(): WhereCondition | ExistsCondition | RelationCondition {
+    if (this.isKeyword(this.peek(), 'EXISTS') && this.peekAt(1).value === '(') {
+      this.advance();
+      return { type: 'exists', query: this.parseSubquery() };
+    }
+
+    const relation = this.parseRelation();
+    if (relation) {
+      return relation;
+    }
+
+    const call = this.parseCallCondition();
+    if (call) {
+      return call;
+    }
+
+    const token = this.peek();
+    const reference = this.parseOperand(false) as PropertyReference;
+    const comparison = this.parseComparison();
+    this.requireBoolean(reference, comparison.operator, token);
+    return { type: 'condition', ...reference, ...comparison };
+  }
+
+  /**
+   * Parse a relation between two join sources, e.g. `c IMPLEMENTS i`
+   */
+  private parseRelation(): RelationCondition | undefined {
+    const scope = this.currentScope();
+    const leftToken = this.peek();
+    const relationToken = this.peekAt(1);
+    const relation = relationToken.value.toUpperCase() as JoinRelation;
+    if (
+      leftToken.type !== TokenType.IDENTIFIER ||
+      !scope.sources!.includes(leftToken.value) ||
+      relationToken.type !== TokenType.IDENTIFIER ||
+      !JOIN_RELATIONS.includes(relation)
+    ) {
+      return undefined;
+    }
+
+    if (!scope.joined) {
+      throw this.error(`${relation} relates two sources of a join`, relationToken);
+    }
+    this.advance();
+    this.advance();
+    return { type: 'relation', left: leftToken.value, relation, right: this.expectSource(scope) };
+  }
+
+  /**
+   * Parse `CALLS <name>` or `CALLED BY <name>`, shorthand for `calls = <name>` and `calledBy = <name>`
+   */
+  private parseCallCondition(): WhereCondition | undefined {
+    const token = this.peek();
+    const next = this.peekAt(1);
+    let property: PropertyName;
+    if (this.isKeyword(token, 'CALLS') && (next.type === TokenType.STRING || next.type === TokenType.PARAMETER)) {
+      this.advance();
+      property = 'calls';
+    } else if (this.isKeyword(token, 'CALLED') && this.isKeyword(next, 'BY')) {
+      this.advance();
+      this.advance();
+      property = 'calledBy';
+    } else {
+      return undefined;
+    }
+
+    const scope = this.currentScope();
+    if (scope.joined) {
+      throw this.ambiguous(property, scope, token);
+    }
+    const value = this.matchParameter() ?? this.expectString();
+    return { type: 'condition', property, operator: QueryOperator.EQUALS, value };
+  }
+
+  /**
+   * Parse a parenthesized subquery: '(' SELECT ... ')'
+   */
+  private parseSubquery(): ParsedQuery {
+    this.expectSymbol('(');
+    this.subqueryDepth++;
+    const query = this.parseSelect();
+    this.subqueryDepth--;
+    this.expectSymbol(')');
+    return query;
+  }
+
+  /**
+   * Parse a HAVING condition on an aggregate, a SELECT alias or a GROUP BY property
+   */
+  private parseHavingCondition(
+    columns: Array<SelectColumn | AggregateColumn> | undefined,
+    groupBy: PropertyPath[]
+  ): WhereCondition | AggregateCondition {
+    const token = this.peek();
+    const operand = this.resolveAlias(columns) ?? this.parseOperand(true);
+    if (!isAggregate(operand)) {
+      this.requireGrouped(operand.property, groupBy, token);
+    }
+    const comparison = this.parseComparison();
+    this.requireBoolean(operand, comparison.operator, token);
+    return { type: 'condition', ...operand, ...comparison };
+  }
+
+  /**
+   * Reject IS TRUE and IS FALSE on anything but a boolean property
+   */
+  private requireBoolean(operand: Operand, operator: QueryOperator, token: Token): void {
+    if (operator !== QueryOperator.IS && operator !== QueryOperator.IS_NOT) {
+      return;
+    }
+    if (isAggregate(operand) || !BOOLEAN_PROPERTIES.includes(pathProperty(operand.property))) {
+      throw this.error(`IS TRUE and IS FALSE require a boolean property (${BOOLEAN_PROPERTIES.join(', ')})`, token);
+    }
+  }
+
+  /**
+   * Parse the operator and value(s) of a condition
+   */
+  private parseComparison(): { operator: QueryOperator; value: ConditionValue; escape?: string } {
     // Handle equality operators: name = 'value' or name != 'value'
-    const equalityMatch = condition.match(/(\w+)\s*(=|!=)\s*['"](.+?)['"]/i);
-    if (equalityMatch) {
-      const property = equalityMatch[1] as QueryProperty;
-      const operator = equalityMatch[2] === '=' ? QueryOperator.EQUALS : QueryOperator.NOT_EQUALS;
-      const value = equalityMatch[3];
-      
+    if (this.matchSymbol('=')) {
+      return { operator: QueryOperator.EQUALS, value: this.parseScalar() };
+    }
+    if (this.matchSymbol('!=') || this.matchSymbol('<>')) {
+      return { operator: QueryOperator.NOT_EQUALS, value: this.parseScalar() };
+    }
+
+    // Handle ordering operators: lineCount > 80
+    for (const operator of ORDERING_OPERATORS) {
+      if (this.matchSymbol(operator)) {
+        return { operator, value: this.parseScalar() };
+      }
+    }
+
+    // Handle boolean tests: isExported IS TRUE or isAsync IS NOT FALSE
+    if (this.matchKeyword('IS')) {
+      const operator = this.matchKeyword('NOT') ? QueryOperator.IS_NOT : QueryOperator.IS;
+      if (this.matchKeyword('TRUE')) {
+        return { operator, value: true };
+      }
+      if (this.matchKeyword('FALSE')) {
+        return { operator, value: false };
+      }
+      throw this.unexpected('TRUE or FALSE');
+    }
+
+    const isNot = this.matchKeyword('NOT');
+
+    // Handle BETWEEN operator: paramCount BETWEEN 2 AND 4
+    if (this.matchKeyword('BETWEEN')) {
+      const low = this.matchParameter() ?? this.expectLiteral();
+      this.expectKeyword('AND');
+      const high = this.matchParameter() ?? this.expectLiteral();
+      return { operator: isNot ? QueryOperator.NOT_BETWEEN : QueryOperator.BETWEEN, value: [low, high] };
+    }
+
+    // Handle LIKE operator: name LIKE [BINARY] 'pattern%' [ESCAPE '\']
+    if (this.matchKeyword('LIKE')) {
+      const binary = this.matchKeyword('BINARY');
+      const operator = binary
+        ? (isNot ? QueryOperator.NOT_LIKE_BINARY : QueryOperator.LIKE_BINARY)
+        : (isNot ? QueryOperator.NOT_LIKE : QueryOperator.LIKE);
+      const value = this.matchParameter() ?? this.expectString();
+
+      if (this.matchKeyword('ESCAPE')) {
+        const escapeToken = this.peek();
+        const escape = this.expectString();
+        if (escape.length !== 1) {
+          throw this.error('ESCAPE must be a single character', escapeToken);
+        }
+        return { operator, value, escape };
+      }
+      return { operator, value };
+    }
+
+    // Handle GLOB operator: name GLOB 'get*'
+    if (this.matchKeyword('GLOB')) {
       return {
-        property,
-        operator,
-        value
+        operator: isNot ? QueryOperator.NOT_GLOB : QueryOperator.GLOB,
+        value: this.matchParameter() ?? this.expectString()
       };
     }
-    
-    return null;
+
+    // Handle MATCHES operator: name MATCHES '/^get[A-Z]/i'
+    if (this.matchKeyword('MATCHES')) {
+      const operator = isNot ? QueryOperator.NOT_MATCHES : QueryOperator.MATCHES;
+      const parameter = this.matchParameter();
+      if (parameter) {
+        return { operator, value: parameter };
+      }
+      const token = this.peek();
+      const value = this.expectString();
+      try {
+        parseRegexLiteral(value);
+      } catch (error) {
+        throw this.error(`Invalid regular expression: ${(error as Error).message}`, token);
+      }
+      return { operator, value };
+    }
+
+    // Handle IN operator: name IN ('a', 'b', 'c'), name IN (SELECT name FROM ...) or name IN :names
+    if (this.matchKeyword('IN')) {
+      const operator = isNot ? QueryOperator.NOT_IN : QueryOperator.IN;
+      const parameter = this.matchParameter();
+      if (parameter) {
+        return { operator, value: parameter };
+      }
+      if (this.isKeyword(this.peekAt(1), 'SELECT')) {
+        const token = this.peekAt(1);
+        const query = this.parseSubquery();
+        if (query.columns?.length !== 1) {
+          throw this.error('Subquery in IN must select exactly one column', token);
+        }
+        return { operator, value: { type: 'subquery', query } };
+      }
+
+      this.expectSymbol('(');
+      const values = [this.matchParameter() ?? this.expectLiteral()];
+      while (this.matchSymbol(',')) {
+        values.push(this.matchParameter() ?? this.expectLiteral());
+      }
+      this.expectSymbol(')');
+
+      return { operator, value: values };
+    }
+
+    throw this.unexpected(
+      isNot ? 'LIKE, GLOB, MATCHES, IN or BETWEEN' : 'operator (=, !=, <, <=, >, >=, LIKE, GLOB, MATCHES, IN, BETWEEN, IS)'
+    );
+  }
+
+  /**
+   * Consume a `?` or `:name` placeholder if one is next
+   */
+  private matchParameter(): Parameter | undefined {
+    const token = this.peek();
+    if (token.type !== TokenType.PARAMETER) {
+      return undefined;
+    }
+
+    if (this.inView) {
+      throw this.error('A view cannot have parameters', token);
+    }
+    const style = token.value === '?' ? 'positional' : 'named';
+    if (this.parameterStyle && this.parameterStyle !== style) {
+      throw this.error('Cannot mix positional (?) and named (:name) parameters in one query', token);
+    }
+    this.parameterStyle = style;
+    this.advance();
+    return style === 'positional'
+      ? { type: 'parameter', index: this.positionalParameters++ }
+      : { type: 'parameter', name: token.value };
+  }
+
+  /**
+   * Parse a comparison value: a parameter, a literal, a qualified property or property path of the current
+   * query, or inside a subquery `outer.<property>` or a qualified property of the enclosing query
+   */
+  private parseScalar(): string | number | OuterReference | ColumnReference | Parameter {
+    const parameter = this.matchParameter();
+    if (parameter) {
+      return parameter;
+    }
+
+    const token = this.peek();
+    if (token.type !== TokenType.IDENTIFIER || (!this.isSymbol(this.peekAt(1), '.') && !this.isPathStep())) {
+      return this.expectLiteral();
+    }
+
+    const scope = this.currentScope();
+    const enclosing: Scope | undefined = scope.isolated ? undefined : this.scopes[this.scopes.length - 2];
+    if (this.isKeyword(token, 'OUTER')) {
+      if (scope.isolated) {
+        throw this.error('A reference filter tests each reference on its own and cannot use outer.<property>', token);
+      }
+      if (this.subqueryDepth === 0 || !enclosing) {
+        throw this.error('outer.<property> can only be used inside a subquery', token);
+      }
+      if (enclosing.joined) {
+        throw this.error(
+          `outer.<property> is ambiguous when the enclosing query has joins; use one of its sources (${enclosing.sources!.join(', ')})`,
+          token
+        );
+      }
+      this.advance();
+      this.expectSymbol('.');
+      return { type: 'outer', property: this.parsePropertyPath() };
+    }
+
+    if (scope.sources!.includes(token.value) || this.isPathStep()) {
+      return { type: 'column', ...this.parsePropertyReference() };
+    }
+    if (enclosing?.sources!.includes(token.value)) {
+      this.advance();
+      this.advance();
+      const property = this.parsePropertyPath();
+      return enclosing.joined
+        ? { type: 'outer', source: token.value, property }
+        : { type: 'outer', property };
+    }
+    throw this.error(`Unknown source '${token.value}'`, token, suggest(token.value, scope.sources!));
+  }
+
+  /**
+   * Parse a property, optionally qualified with a source as in `c.name`
+   *
+   * The source is kept only in join queries. While the SELECT list is parsed the sources are not
+   * known yet, so qualifiers are kept as written and checked by resolveColumns.
+   */
+  private parsePropertyReference(): PropertyReference {
+    const scope = this.currentScope();
+    const token = this.peek();
+    if (token.type === TokenType.IDENTIFIER && this.isSymbol(this.peekAt(1), '.') && !this.isPathStep()) {
+      if (scope.sources && !scope.sources.includes(token.value)) {
+        throw this.error(`Unknown source '${token.value}'`, token, suggest(token.value, scope.sources));
+      }
+      this.advance();
+      this.advance();
+      const property = this.parsePropertyPath();
+      return !scope.sources || scope.joined ? { source: token.value, property } : { property };
+    }
+
+    const property = this.parsePropertyPath();
+    if (scope.joined) {
+      throw this.ambiguous(property, scope, token);
+    }
+    return { property };
+  }
+
+  /**
+   * Expect the name of a source of the current query
+   */
+  private expectSource(scope: Scope): string {
+    const token = this.peek();
+    const name = this.expectIdentifier('source name');
+    if (!scope.sources!.includes(name)) {
+      throw this.error(`Unknown source '${name}'`, token, suggest(name, scope.sources!));
+    }
+    return name;
+  }
+
+  private currentScope(): Scope {
+    return this.scopes[this.scopes.length - 1];
+  }
+
+  /**
+   * Parse a property preceded by any number of navigation steps:
+   * `parent.`, `sourceFile.`, `decorator.`, `jsdoc.` and `ancestor(<NodeType>).`
+   */
+  private parsePropertyPath(): PropertyPath {
+    const steps: string[] = [];
+    while (this.isPathStep()) {
+      const token = this.advance();
+      if (this.isKeyword(token, 'ANCESTOR')) {
+        this.expectSymbol('(');
+        const nodeTypeToken = this.peek();
+        const nodeType = this.parseNodeType();
+        if (nodeType === '*') {
+          throw this.error('ancestor() needs a node type', nodeTypeToken);
+        }
+        this.expectSymbol(')');
+        steps.push(`ancestor(${nodeType})`);
+      } else {
+        steps.push(PATH_STEPS.find(step => this.isKeyword(token, step.toUpperCase()))!);
+      }
+      this.expectSymbol('.');
+    }
+    return [...steps, this.parseProperty()].join('.') as PropertyPath;
+  }
+
+  /**
+   * Whether the next tokens start a navigation step: `parent.`, `sourceFile.` or `ancestor(`
+   */
+  private isPathStep(): boolean {
+    const token = this.peek();
+    const next = this.peekAt(1);
+    if (this.isKeyword(token, 'ANCESTOR')) {
+      return this.isSymbol(next, '(');
+    }
+    return PATH_STEPS.some(step => this.isKeyword(token, step.toUpperCase())) && this.isSymbol(next, '.');
+  }
+
+  /**
+   * Parse a property name, rejecting names the executor does not know, or `tag(<name>)`
+   */
+  private parseProperty(): PropertyName {
+    const token = this.peek();
+    const name = this.expectIdentifier('property name');
+    if (!(QUERY_PROPERTIES as readonly string[]).includes(name)) {
+      throw this.error(`Unknown property '${name}'`, token, suggest(name, QUERY_PROPERTIES));
+    }
+    if (name === 'tag' && this.matchSymbol('(')) {
+      const tag = this.expectIdentifier('JSDoc tag name');
+      this.expectSymbol(')');
+      return `tag(${tag})`;
+    }
+    return name as PropertyName;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== TokenType.EOF) {
+      this.position++;
+    }
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === TokenType.IDENTIFIER && token.value.toUpperCase() === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      throw this.unexpected(keyword);
+    }
+  }
+
+  private isSymbol(token: Token, symbol: string): boolean {
+    return token.type === TokenType.SYMBOL && token.value === symbol;
+  }
+
+  private matchSymbol(symbol: string): boolean {
+    if (this.isSymbol(this.peek(), symbol)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.matchSymbol(symbol)) {
+      throw this.unexpected(`'${symbol}'`);
+    }
   }
-  
+
+  private expectIdentifier(description: string): string {
+    const token = this.peek();
+    if (token.type !== TokenType.IDENTIFIER) {
+      throw this.unexpected(description);
+    }
+    return this.advance().value;
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (token.type !== TokenType.STRING) {
+      throw this.unexpected('quoted string');
+    }
+    return this.advance().value;
+  }
+
+  /**
+   * Expect a string or number literal
+   */
+  private expectLiteral(): string | number {
+    const token = this.peek();
+    if (token.type === TokenType.NUMBER) {
+      this.advance();
+      return Number(token.value);
+    }
+    if (token.type !== TokenType.STRING) {
+      throw this.unexpected('quoted string or number');
+    }
+    return this.advance().value;
+  }
+
+  /**
+   * Expect a non-negative integer, as used by LIMIT and OFFSET
+   */
+  private expectCount(): number {
+    const token = this.peek();
+    if (token.type !== TokenType.NUMBER || !/^[0-9]+$/.test(token.value)) {
+      throw this.unexpected('non-negative integer');
+    }
+    this.advance();
+    return Number(token.value);
+  }
+
+  private unexpected(expected: string): QuerySyntaxError {
+    const token = this.peek();
+    const found = token.type === TokenType.EOF ? 'end of query' : `'${this.sourceText(token)}'`;
+    return this.error(`Expected ${expected} but found ${found}`, token);
+  }
+
+  private error(reason: string, token: Token, suggestions: string[] = []): QuerySyntaxError {
+    return new QuerySyntaxError(reason, this.query, token.start, this.sourceText(token), suggestions);
+  }
+
+  private sourceText(token: Token): string {
+    return this.query.slice(token.start, token.end);
+  }
+
   /**
-   * Validate if a query string is syntactically correct
+   * Validate if a query string or CREATE VIEW statement is syntactically correct
    */
-  validate(query: string): { valid: boolean; error?: string } {
+  validate(query: string): { valid: boolean; error?: string; syntaxError?: QuerySyntaxError } {
     try {
-      this.parse(query);
+      this.parseStatement(query);
       return { valid: true };
     } catch (error) {
       return {
         valid: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        syntaxError: error instanceof QuerySyntaxError ? error : undefined
       };
     }
   }
@@ -0,0 +1,75 @@
+/**
+ * Translation of LIKE, GLOB and MATCHES patterns into regular expressions
+ */
+
+/**
+ * Escape a character (or string) for literal use inside a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Convert a SQL LIKE pattern into an anchored regular expression
+ *
+ * `%` matches any run of characters and `_` a single character. When an escape
+ * character is given, it makes the following `%`, `_` or escape character literal.
+ */
+export function likeToRegExp(pattern: string, options: { caseSensitive?: boolean; escape?: string } = {}): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (options.escape !== undefined && char === options.escape && i + 1 < pattern.length) {
+      source += escapeRegex(pattern[++i]);
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`, options.caseSensitive ? 's' : 'is');
+}
+
+/**
+ * Convert a case-sensitive GLOB pattern into an anchored regular expression
+ *
+ * `*` matches any run of characters, `?` a single character and `[...]` / `[^...]`
+ * a character set, as in SQLite. A `]` right after the opening `[` or `[^` is a member, so a
+ * set without a closing `]`, such as `[^]`, is matched literally.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const negated = char === '[' && pattern[i + 1] === '^';
+    const start = negated ? i + 2 : i + 1;
+    const close = char === '[' ? pattern.indexOf(']', start + 1) : -1;
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (close !== -1) {
+      const members = pattern.slice(start, close).replace(/[\\\]]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${members}]`;
+      i = close;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Parse a MATCHES operand: either `/source/flags` or a bare regular expression source
+ *
+ * The stateful `g` and `y` flags are dropped since each value is tested independently.
+ * Throws a SyntaxError when the expression or its flags are invalid.
+ */
+export function parseRegexLiteral(literal: string): RegExp {
+  const match = /^\/(.*)\/([a-z]*)$/s.exec(literal);
+  return match
+    ? new RegExp(match[1], match[2].replace(/[gy]/g, ''))
+    : new RegExp(literal);
+}
@@ -0,0 +1,107 @@
+import { QueryParser } from '../src/parser';
+import { QueryPrinter } from '../src/printer';
+import { toJSON, fromJSON } from '../src/json';
+import { QueryJSONError } from '../src/errors';
+import { QUERY_JSON_VERSION } from '../src/types';
+
+const QUERIES = [
+  'SELECT * FROM ClassDeclaration',
+  "select name as n, path from InterfaceDeclaration where name = 'User' order by n desc limit 5 offset 2 with references",
+  "SELECT * FROM * WHERE kind != 'Identifier' AND NOT (line < 3 OR line >= 10.5)",
+  "SELECT * FROM FunctionDeclaration WHERE (name LIKE 'get%' OR name LIKE 'set%') AND (paramCount BETWEEN 1 AND 2)",
+  "SELECT * FROM FunctionDeclaration WHERE name NOT LIKE BINARY 'Get%' OR (name GLOB 'x*' OR name NOT GLOB 'y?')",
+  "SELECT * FROM ClassDeclaration WHERE name LIKE '50!%%' ESCAPE '!' AND text NOT MATCHES '/it''s/i'",
+  'SELECT * FROM ClassDeclaration WHERE name IN (\'A\', "B\'s", 3) AND memberCount NOT BETWEEN 0 AND 1',
+  'SELECT * FROM MethodDeclaration WHERE ancestor(ClassDeclaration).name = parent.name AND sourceFile.baseName LIKE \'%.ts\'',
+  'SELECT * FROM MethodDeclaration WHERE isStatic IS TRUE AND parent.isExported IS NOT FALSE AND scope = \'private\'',
+  "SELECT name, jsdoc.tag(deprecated) AS reason FROM FunctionDeclaration WHERE hasJsDoc = 'true' AND jsdoc.tag = 'deprecated' AND decorator.args = jsdoc.tag(see)",
+  'SELECT kind, COUNT(*) AS total, MAX(line) FROM * GROUP BY kind HAVING COUNT(*) > 1 AND kind != \'Block\' ORDER BY total DESC, kind',
+  'SELECT path AS name, COUNT(*) FROM ClassDeclaration GROUP BY name, path ORDER BY ClassDeclaration.name',
+  'SELECT * FROM ClassDeclaration c WHERE name IN (SELECT name FROM InterfaceDeclaration WHERE path = c.path)',
+  'SELECT * FROM ClassDeclaration WHERE EXISTS (SELECT * FROM FunctionDeclaration f WHERE f.path = outer.path AND NOT EXISTS (SELECT * FROM EnumDeclaration))',
+  'SELECT c.name, i.name AS iface FROM ClassDeclaration c INNER JOIN InterfaceDeclaration i ON c IMPLEMENTS i LEFT OUTER JOIN MethodDeclaration AS m ON c CONTAINS m AND m.name = c.name WHERE i.path = c.path ORDER BY c.name',
+  "SELECT * FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c INHERITS i WHERE c.implements = 'A' OR i.extends != c.inherits WITH supertypes, references, subtypes",
+  "SELECT * FROM MethodDeclaration WHERE CALLS 'save' OR called by :caller WITH CALLEES DEPTH 3, CALLERS, REFERENCES",
+  "SELECT name AS path FROM ClassDeclaration WITH SUBTYPES, REFERENCES EXCLUDING DECLARATIONS WHERE NOT (kind = 'read' OR path LIKE :tests)",
+  "SELECT * FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c IMPLEMENTS i WITH REFERENCES WHERE line > 2 AND EXISTS (SELECT * FROM SourceFile)",
+  'SELECT * FROM FunctionDeclaration WITH DEPENDENCIES, CALLERS DEPTH 1',
+  'SELECT * FROM InterfaceDeclaration WITH DEPENDENCIES DEPTH 1',
+  'SELECT * FROM ClassDeclaration c JOIN InterfaceDeclaration i ON c.path = i.path WHERE EXISTS (SELECT * FROM FunctionDeclaration WHERE path = c.path)',
+  'SELECT * FROM FunctionDeclaration WHERE name = ? AND paramCount BETWEEN ? AND ? OR kind IN ? AND name IN (?, \'x\')',
+  'SELECT * FROM FunctionDeclaration WHERE name LIKE :prefix ESCAPE \'\\\' AND line IN :lines',
+  "SELECT * FROM FunctionDeclaration WHERE name LIKE 'get%' UNION SELECT * FROM * WHERE kind = 'ArrowFunction' ORDER BY name LIMIT 3",
+  'SELECT name AS n, COUNT(*) FROM ClassDeclaration GROUP BY name EXCEPT SELECT name, COUNT(*) FROM InterfaceDeclaration GROUP BY name ORDER BY n DESC, COUNT(*)',
+  'SELECT where.name FROM ClassDeclaration AS where JOIN InterfaceDeclaration AS as ON where IMPLEMENTS as LEFT JOIN MethodDeclaration AS limit ON where CONTAINS limit WHERE as.name = limit.name'
+];
+
+describe('QueryPrinter', () => {
+  const parser = new QueryParser();
+  const printer = new QueryPrinter();
+  
+  it.each(QUERIES)('should print a query that parses back to the same query: %s', text => {
+    const query = parser.parse(text);
+    const printed = printer.print(query);
+    expect(parser.parse(printed)).toStrictEqual(query);
+    expect(printer.print(parser.parse(printed))).toBe(printed);
+  });
+  
+  it('should print canonical text', () => {
+    expect(printer.print(parser.parse(
+      "select c.name as n from ClassDeclaration as c left outer join InterfaceDeclaration i on c implements i where c.name like \"it's%\" order by n asc"
+    ))).toBe(
+      "SELECT c.name AS n FROM ClassDeclaration c LEFT JOIN InterfaceDeclaration i ON c IMPLEMENTS i WHERE c.name LIKE 'it''s%' ORDER BY c.name"
+    );
+    expect(printer.print(parser.parse('SELECT * FROM ClassDeclaration c WHERE c.path = c.name'))).toBe(
+      'SELECT * FROM ClassDeclaration c WHERE path = c.name'
+    );
+  });
+  
+  it('should print views and queries over views', () => {
+    const [services] = parser.parseLibrary("create view Services as select * from ClassDeclaration where name like '%Service'");
+    expect(printer.printView(services)).toBe("CREATE VIEW Services AS SELECT * FROM ClassDeclaration WHERE name LIKE '%Service'");
+    
+    const withViews = new QueryParser(new Map([[services.name, services.query]]));
+    const query = withViews.parse('SELECT * FROM Services LEFT JOIN Services AS other ON Services.path = other.path');
+    expect(printer.print(query)).toBe('SELECT * FROM Services LEFT JOIN Services other ON Services.path = other.path');
+    expect(withViews.parse(printer.print(query))).toStrictEqual(query);
+    expect(fromJSON(toJSON(query), new Map([[services.name, services.query]]))).toStrictEqual(query);
+  });
+  
+  it('should reject numbers query text cannot express', () => {
+    const query = parser.parse('SELECT * FROM ClassDeclaration WHERE line > 1');
+    (query.where as { value: number }).value = -1;
+    expect(() => printer.print(query)).toThrow(/Cannot print number -1/);
+  });
+});
+
+describe('toJSON / fromJSON', () => {
+  const parser = new QueryParser();
+  
+  it.each(QUERIES)('should round-trip through JSON text: %s', text => {
+    const query = parser.parse(text);
+    const json = JSON.stringify(toJSON(query));
+    expect(fromJSON(json)).toStrictEqual(query);
+  });
+  
+  it('should write a versioned object without undefined fields', () => {
+    const json = toJSON(parser.parse("SELECT * FROM ClassDeclaration WHERE name = 'A'"));
+    expect(json).toStrictEqual({
+      version: QUERY_JSON_VERSION,
+      query: {
+        nodeType: 'ClassDeclaration',
+        where: { type: 'condition', property: 'name', operator: '=', value: 'A' },
+        withReferences: false
+      }
+    });
+  });
+  
+  it('should reject other versions and invalid queries', () => {
+    const { query } = toJSON(parser.parse('SELECT * FROM ClassDeclaration'));
+    expect(() => fromJSON({ version: 2, query } as never)).toThrow(/Unsupported query JSON version 2; expected 1/);
+    expect(() => fromJSON('{ "version": 1')).toThrow(QueryJSONError);
+    expect(() => fromJSON({ version: 1, query: { ...query, nodeType: 'Klass' } } as never)).toThrow(/Unknown node type 'Klass'/);
+    expect(() => fromJSON({ version: 1, query: { ...query, where: { type: 'xor' } } } as never)).toThrow(
+      /Cannot print expression of type 'xor'/
+    );
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  AggregateCondition,
+  AggregateExpression,
+  AggregateOrderByItem,
+  BooleanExpression,
+  ConditionValue,
+  ExistsCondition,
+  JoinClause,
+  Operand,
+  OrderByItem,
+  Parameter,
+  ParsedQuery,
+  PATH_STEPS,
+  PropertyReference,
+  QueryOperator,
+  RelationCondition,
+  ViewDefinition,
+  WhereCondition
+} from './types';
+import { aggregateLabel, CLAUSE_KEYWORDS, isAggregate } from './values';
+
+/**
+ * Operators whose value is a `[low, high]` pair
+ */
+const RANGE_OPERATORS = [QueryOperator.BETWEEN, QueryOperator.NOT_BETWEEN];
+
+/**
+ * Operators whose value is a list, a subquery or a whole-list parameter
+ */
+const LIST_OPERATORS = [QueryOperator.IN, QueryOperator.NOT_IN];
+
+type Leaf = WhereCondition | AggregateCondition | ExistsCondition | RelationCondition;
+
+/**
+ * Prints parsed queries back as canonical query text
+ *
+ * The output uses upper-case keywords, single-quoted strings and one space between tokens, omits
+ * optional words (AS before source aliases, INNER, OUTER, ASC) and keeps the grouping of nested
+ * AND / OR expressions, so that parsing the printed text yields a query equal to the printed one.
+ *
+ * @example
+ * ```typescript
+ * const printer = new QueryPrinter();
+ * printer.print(parser.parse("select * from ClassDeclaration where name like \"%Service\""));
+ * // SELECT * FROM ClassDeclaration WHERE name LIKE '%Service'
+ * ```
+ */
+export class QueryPrinter {
+  /**
+   * Print a parsed query as query text
+   * @throws Error if the query holds a value query text cannot express, such as a negative number
+   */
+  print(query: ParsedQuery): string {
+    const parts = ['SELECT', this.printColumns(query), 'FROM', this.printSource(query)];
+
+    for (const join of query.joins ?? []) {
+      parts.push(this.printJoin(join, query));
+    }
+    if (query.where) {
+      parts.push('WHERE', this.printExpression(query.where, query));
+    }
+    if (query.groupBy) {
+      parts.push('GROUP BY', query.groupBy.join(', '));
+    }
+    if (query.having) {
+      parts.push('HAVING', this.printExpression(query.having, query));
+    }
+    for (const part of query.compound ?? []) {
+      parts.push(part.operator, this.print(part.query));
+    }
+    if (query.orderBy) {
+      parts.push('ORDER BY', query.orderBy.map(item => this.printOrderByItem(item, query)).join(', '));
+    }
+    if (query.limit !== undefined) {
+      parts.push('LIMIT', this.printNumber(query.limit));
+    }
+    if (query.offset !== undefined) {
+      parts.push('OFFSET', this.printNumber(query.offset));
+    }
+    const expansions = [
+      query.withReferences && this.printReferences(query),
+      query.withSubtypes && 'SUBTYPES',
+      query.withSupertypes && 'SUPERTYPES',
+      query.withCallers && this.printDepth('CALLERS', query.withCallers),
+      query.withCallees && this.printDepth('CALLEES', query.withCallees),
+      query.withDependencies && this.printDepth('DEPENDENCIES', query.withDependencies.depth)
+    ].filter(Boolean);
+    if (expansions.length > 0) {
+      parts.push('WITH', expansions.join(', '));
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Print a view definition as a CREATE VIEW statement
+   */
+  printView(view: ViewDefinition): string {
+    return `CREATE VIEW ${view.name} AS ${this.print(view.query)}`;
+  }
+
+  private printColumns(query: ParsedQuery): string {
+    if (!query.columns) {
+      return '*';
+    }
+    return query.columns
+      .map(column => {
+        const text = this.printOperand(column, query);
+        return column.alias !== undefined ? `${text} AS ${column.alias}` : text;
+      })
+      .join(', ');
+  }
+
+  private printSource(source: ParsedQuery | JoinClause): string {
+    const name = source.view ?? source.nodeType;
+    if (source.alias === undefined) {
+      return name;
+    }
+
+    // A bare `where` or `as` would be read as the keyword, so such aliases keep their AS
+    const keyword = source.alias.toUpperCase();
+    return keyword === 'AS' || CLAUSE_KEYWORDS.includes(keyword) ? `${name} AS ${source.alias}` : `${name} ${source.alias}`;
+  }
+
+  private printJoin(join: JoinClause, query: ParsedQuery): string {
+    const keyword = join.type === 'left' ? 'LEFT JOIN' : 'JOIN';
+    return `${keyword} ${this.printSource(join)} ON ${this.printExpression(join.on, query)}`;
+  }
+
+  private printOrderByItem(item: OrderByItem | AggregateOrderByItem, query: ParsedQuery): string {
+    const text = this.printOperand(item, query, true);
+    return item.direction === 'DESC' ? `${text} DESC` : text;
+  }
+
+  /**
+   * Print an expression, parenthesizing nested AND / OR so the parser rebuilds the same tree
+   */
+  private printExpression(expression: BooleanExpression<Leaf>, query: ParsedQuery): string {
+    switch (expression.type) {
+      case 'and':
+      case 'or':
+        return expression.operands
+          .map(operand => {
+            const text = this.printExpression(operand, query);
+            const nested = operand.type === 'or' || (operand.type === 'and' && expression.type === 'and');
+            return nested ? `(${text})` : text;
+          })
+          .join(` ${expression.type.toUpperCase()} `);
+
+      case 'not': {
+        const text = this.printExpression(expression.operand, query);
+        const nested = expression.operand.type === 'and' || expression.operand.type === 'or';
+        return nested ? `NOT (${text})` : `NOT ${text}`;
+      }
+
+      case 'exists':
+        return `EXISTS (${this.print(expression.query)})`;
+
+      case 'relation':
+        return `${expression.left} ${expression.relation} ${expression.right}`;
+
+      case 'condition':
+        return this.printCondition(expression, query);
+
+      default:
+        throw new Error(`Cannot print expression of type '${(expression as { type: string }).type}'`);
+    }
+  }
+
+  private printCondition(condition: WhereCondition | AggregateCondition, query: ParsedQuery): string {
+    const operand = this.printOperand(condition, query, true);
+    const { operator, value } = condition;
+
+    let text: string;
+    if (RANGE_OPERATORS.includes(operator) && Array.isArray(value)) {
+      text = `${operator} ${this.printValue(value[0], query)} AND ${this.printValue(value[1], query)}`;
+    } else if (LIST_OPERATORS.includes(operator) && Array.isArray(value)) {
+      text = `${operator} (${value.map(item => this.printValue(item, query)).join(', ')})`;
+    } else {
+      text = `${operator} ${this.printValue(value, query)}`;
+    }
+
+    return condition.escape !== undefined
+      ? `${operand} ${text} ESCAPE ${this.printString(condition.escape)}`
+      : `${operand} ${text}`;
+  }
+
+  private printValue(value: ConditionValue, query: ParsedQuery): string {
+    if (typeof value === 'string') {
+      return this.printString(value);
+    }
+    if (typeof value === 'number') {
+      return this.printNumber(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'TRUE' : 'FALSE';
+    }
+    if (Array.isArray(value)) {
+      throw new Error('Cannot print a value list outside of IN or BETWEEN');
+    }
+
+    switch (value.type) {
+      case 'parameter':
+        return this.printParameter(value);
+      case 'subquery':
+        return `(${this.print(value.query)})`;
+      case 'outer':
+        return value.source !== undefined ? `${value.source}.${value.property}` : `outer.${value.property}`;
+      case 'column':
+        return this.printColumnReference(value, query);
+    }
+  }
+
+  /**
+   * Print a reference to the current row, which needs a source qualifier unless it starts with a path step
+   */
+  private printColumnReference(reference: PropertyReference, query: ParsedQuery): string {
+    if (reference.source !== undefined) {
+      return `${reference.source}.${reference.property}`;
+    }
+    if (this.startsWithPathStep(reference.property)) {
+      return reference.property;
+    }
+    return `${this.sourceName(query)}.${reference.property}`;
+  }
+
+  /**
+   * Print a property or aggregate
+   * @param resolvesAliases Whether the position also accepts SELECT aliases (ORDER BY, HAVING), in which
+   *   case a property named like an alias is qualified with its source to keep it from being read as the alias
+   */
+  private printOperand(operand: Operand, query: ParsedQuery, resolvesAliases = false): string {
+    if (isAggregate(operand)) {
+      return aggregateLabel(operand as AggregateExpression);
+    }
+    if (operand.source !== undefined) {
+      return `${operand.source}.${operand.property}`;
+    }
+    const shadowed = resolvesAliases && (query.columns ?? []).some(column => column.alias === operand.property);
+    return shadowed && query.nodeType !== '*'
+      ? `${this.sourceName(query)}.${operand.property}`
+      : operand.property;
+  }
+
+  private printReferences(query: ParsedQuery): string {
+    const parts = ['REFERENCES'];
+    if (query.referenceFilter?.excludeDeclarations) {
+      parts.push('EXCLUDING DECLARATIONS');
+    }
+    if (query.referenceFilter?.where) {
+      // The filter does not see the query's SELECT aliases, so its properties never need qualifying
+      parts.push('WHERE', this.printExpression(query.referenceFilter.where, { ...query, columns: undefined }));
+    }
+    return parts.join(' ');
+  }
+
+  /**
+   * Print an expansion with its depth, leaving out the depth the parser defaults to
+   */
+  private printDepth(expansion: 'CALLERS' | 'CALLEES' | 'DEPENDENCIES', depth: number | undefined): string {
+    const implied = expansion === 'DEPENDENCIES' ? undefined : 1;
+    return depth === implied ? expansion : `${expansion} DEPTH ${this.printNumber(depth!)}`;
+  }
+
+  private printParameter(parameter: Parameter): string {
+    return parameter.name !== undefined ? `:${parameter.name}` : '?';
+  }
+
+  /**
+   * Single-quote a string, doubling the quotes inside it
+   */
+  private printString(value: string): string {
+    return `'${value.replace(/'/g, '\'\'')}'`;
+  }
+
+  private printNumber(value: number): string {
+    const text = String(value);
+    if (!/^[0-9]+(\.[0-9]+)?$/.test(text)) {
+      throw new Error(`Cannot print number ${text}; query literals are non-negative decimals`);
+    }
+    return text;
+  }
+
+  private sourceName(query: ParsedQuery): string {
+    return query.alias ?? query.view ?? query.nodeType;
+  }
+
+  private startsWithPathStep(property: string): boolean {
+    return PATH_STEPS.some(step => property.startsWith(`${step}.`) || property.startsWith(`${step}(`));
+  }
+}
@@ -9,46 +9,505 @@ export enum QueryOperator {
   LIKE = 'LIKE',
   NOT_LIKE = 'NOT LIKE',
   IN = 'IN',
-  NOT_IN = 'NOT IN'
+  NOT_IN = 'NOT IN',
+  /** Case-sensitive LIKE */
+  LIKE_BINARY = 'LIKE BINARY',
+  NOT_LIKE_BINARY = 'NOT LIKE BINARY',
+  /** Case-sensitive glob match with `*`, `?` and `[...]` */
+  GLOB = 'GLOB',
+  NOT_GLOB = 'NOT GLOB',
+  /** Regular expression match against `'/source/flags'` */
+  MATCHES = 'MATCHES',
+  NOT_MATCHES = 'NOT MATCHES',
+  LESS_THAN = '<',
+  LESS_THAN_OR_EQUAL = '<=',
+  GREATER_THAN = '>',
+  GREATER_THAN_OR_EQUAL = '>=',
+  /** Inclusive range; the value is a `[low, high]` pair */
+  BETWEEN = 'BETWEEN',
+  NOT_BETWEEN = 'NOT BETWEEN',
+  /** Boolean test against TRUE or FALSE; IS NOT also holds for nodes without the flag */
+  IS = 'IS',
+  IS_NOT = 'IS NOT'
 }
 
 /**
  * Supported property names for WHERE clause
  */
-export type QueryProperty = 'name' | 'kind' | 'text' | 'modifier' | 'path' | 'baseName' | 'extension';
+export const QUERY_PROPERTIES = [
+  'name',
+  'kind',
+  'text',
+  'modifier',
+  'path',
+  'baseName',
+  'extension',
+  'line',
+  'startLine',
+  'endLine',
+  'lineCount',
+  'paramCount',
+  'memberCount',
+  'typeParamCount',
+  'decorator',
+  'args',
+  'jsdoc',
+  'tag',
+  'hasJsDoc',
+  'type',
+  'returnType',
+  'paramType',
+  'typeSymbol',
+  'isExported',
+  'isDefaultExport',
+  'isAsync',
+  'isAbstract',
+  'isStatic',
+  'isReadonly',
+  'isOptional',
+  'isAmbient',
+  'scope',
+  'extends',
+  'implements',
+  'inherits',
+  'calls',
+  'calledBy'
+] as const;
+
+export type QueryProperty = typeof QUERY_PROPERTIES[number];
+
+/**
+ * A property name, including `tag(<name>)`: the comments of a JSDoc comment's tags with that name
+ */
+export type PropertyName = QueryProperty | `tag(${string})`;
+
+/**
+ * Properties that resolve to numbers, usable with SUM and AVG and compared numerically
+ */
+export const NUMERIC_PROPERTIES: readonly PropertyName[] = [
+  'line',
+  'startLine',
+  'endLine',
+  'lineCount',
+  'paramCount',
+  'memberCount',
+  'typeParamCount'
+];
+
+/**
+ * Properties that resolve to `'true'` or `'false'`, usable with IS TRUE and IS FALSE
+ */
+export const BOOLEAN_PROPERTIES: readonly PropertyName[] = [
+  'hasJsDoc',
+  'isExported',
+  'isDefaultExport',
+  'isAsync',
+  'isAbstract',
+  'isStatic',
+  'isReadonly',
+  'isOptional',
+  'isAmbient'
+];
+
+/**
+ * Navigation steps that lead from a node to a related node before reading a property:
+ * `parent`, `ancestor(<NodeType>)` (the nearest enclosing node of that type), `sourceFile`,
+ * `decorator` and `jsdoc` (each decorator or JSDoc comment of the node; a condition matches when it
+ * holds for one of them)
+ */
+export const PATH_STEPS = ['parent', 'ancestor', 'sourceFile', 'decorator', 'jsdoc'] as const;
+
+/**
+ * A property, optionally read from a related node through dotted steps, e.g. `parent.name`,
+ * `ancestor(ClassDeclaration).name` or `jsdoc.tag(deprecated)`
+ */
+export type PropertyPath = PropertyName | `${string}.${PropertyName}`;
+
+/**
+ * Value of a property resolved from a node (null when the node has no such property)
+ */
+export type PropertyValue = string | number | null;
+
+/**
+ * A property of one FROM source
+ *
+ * `source` names the source by its alias (or node type when unaliased) and is only set in join
+ * queries; queries over a single source leave it undefined even when the property was qualified.
+ */
+export interface PropertyReference {
+  source?: string;
+  property: PropertyPath;
+}
+
+/**
+ * Reference to a property of the enclosing query's current row, written `outer.<property>` or
+ * `<alias>.<property>` with an alias of the enclosing query inside a subquery
+ */
+export interface OuterReference extends PropertyReference {
+  type: 'outer';
+}
+
+/**
+ * Reference to a property of the current row, written `<alias>.<property>`, for comparing
+ * two properties such as `c.path = i.path`
+ */
+export interface ColumnReference extends PropertyReference {
+  type: 'column';
+}
+
+/**
+ * A nested SELECT, used as the value list of IN
+ */
+export interface Subquery {
+  type: 'subquery';
+  query: ParsedQuery;
+}
+
+/**
+ * A bind parameter placeholder, replaced by a value before the query executes
+ */
+export interface Parameter {
+  type: 'parameter';
+  /** Zero-based position of a `?` placeholder among the query's placeholders */
+  index?: number;
+  /** Name of a `:name` placeholder */
+  name?: string;
+}
+
+/**
+ * Value bound to a parameter; arrays are only accepted by `IN ?`
+ */
+export type ParameterValue = string | number | Array<string | number>;
+
+/**
+ * Values for the `?` placeholders of a query in order, or for its `:name` placeholders by name
+ */
+export type QueryParameters = ParameterValue[] | Record<string, ParameterValue>;
+
+/**
+ * Value(s) a condition compares against: a literal, TRUE or FALSE (IS), a property reference, a
+ * literal list (IN, BETWEEN), a subquery (IN) or a parameter in place of any literal or list
+ */
+export type ConditionValue =
+  | string
+  | number
+  | boolean
+  | OuterReference
+  | ColumnReference
+  | Array<string | number | Parameter>
+  | Subquery
+  | Parameter;
 
 /**
  * A single condition in the WHERE clause
  */
-export interface WhereCondition {
-  property: QueryProperty;
+export interface WhereCondition extends PropertyReference {
+  type: 'condition';
+  operator: QueryOperator;
+  value: ConditionValue;
+  /** ESCAPE character of a LIKE pattern */
+  escape?: string;
+}
+
+/**
+ * EXISTS (SELECT ...) predicate, true when the subquery returns at least one row
+ */
+export interface ExistsCondition {
+  type: 'exists';
+  query: ParsedQuery;
+}
+
+/**
+ * Relations between the nodes of two join sources
+ *
+ * - IMPLEMENTS: the class lists the right node in its `implements` clause
+ * - EXTENDS: the class or interface lists the right node in its `extends` clause
+ * - INHERITS: the right node is a base class or interface of the left node, directly or through
+ *   its bases
+ * - CONTAINS: the right node is declared inside the left node
+ * - USES: the right node is referenced by a type annotation in the left node's signature
+ */
+export const JOIN_RELATIONS = ['IMPLEMENTS', 'EXTENDS', 'INHERITS', 'CONTAINS', 'USES'] as const;
+
+export type JoinRelation = typeof JOIN_RELATIONS[number];
+
+/**
+ * A relation between two join sources, e.g. `c IMPLEMENTS i`
+ */
+export interface RelationCondition {
+  type: 'relation';
+  left: string;
+  relation: JoinRelation;
+  right: string;
+}
+
+/**
+ * AND / OR combination of boolean expressions
+ */
+export interface LogicalExpression<TCondition = WhereCondition | ExistsCondition | RelationCondition> {
+  type: 'and' | 'or';
+  operands: BooleanExpression<TCondition>[];
+}
+
+/**
+ * Negation of a boolean expression
+ */
+export interface NotExpression<TCondition = WhereCondition | ExistsCondition | RelationCondition> {
+  type: 'not';
+  operand: BooleanExpression<TCondition>;
+}
+
+/**
+ * Boolean expression tree over conditions of type TCondition
+ */
+export type BooleanExpression<TCondition> =
+  | TCondition
+  | LogicalExpression<TCondition>
+  | NotExpression<TCondition>;
+
+/**
+ * Boolean expression tree of the WHERE clause and of JOIN ... ON
+ */
+export type WhereExpression = BooleanExpression<WhereCondition | ExistsCondition | RelationCondition>;
+
+/**
+ * Aggregate functions available in GROUP BY queries
+ */
+export const AGGREGATE_FUNCTIONS = ['COUNT', 'MIN', 'MAX', 'SUM', 'AVG'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+/**
+ * An aggregate over the nodes of a group, e.g. COUNT(*) or MAX(line)
+ */
+export interface AggregateExpression {
+  aggregate: AggregateFunction;
+  /** Aggregated property; undefined for COUNT(*) */
+  property?: PropertyPath;
+}
+
+/**
+ * A property or aggregate reference, as used by columns, sort keys and HAVING conditions
+ */
+export type Operand = PropertyReference | AggregateExpression;
+
+/**
+ * A HAVING condition on an aggregate; conditions on grouped properties use WhereCondition
+ */
+export interface AggregateCondition extends AggregateExpression {
+  type: 'condition';
   operator: QueryOperator;
-  value: string | string[];
+  value: ConditionValue;
+  /** ESCAPE character of a LIKE pattern */
+  escape?: string;
 }
 
 /**
- * Node types that can be queried
+ * Boolean expression tree of the HAVING clause
  */
-export type NodeType =
-  | 'InterfaceDeclaration'
-  | 'ClassDeclaration'
-  | 'FunctionDeclaration'
-  | 'MethodDeclaration'
-  | 'PropertyDeclaration'
-  | 'VariableDeclaration'
-  | 'TypeAliasDeclaration'
-  | 'EnumDeclaration'
-  | 'ImportDeclaration'
-  | 'ExportDeclaration'  | 'SourceFile'  | 'SourceFile'
-  | '*';
+export type HavingExpression = BooleanExpression<WhereCondition | AggregateCondition>;
+
+/**
+ * Node types with dedicated property support; any other SyntaxKind name can be queried as well
+ */
+export const NODE_TYPES = [
+  'InterfaceDeclaration',
+  'ClassDeclaration',
+  'FunctionDeclaration',
+  'MethodDeclaration',
+  'MethodSignature',
+  'PropertyDeclaration',
+  'GetAccessorDeclaration',
+  'SetAccessorDeclaration',
+  'ConstructorDeclaration',
+  'CallSignature',
+  'Parameter',
+  'VariableDeclaration',
+  'TypeAliasDeclaration',
+  'EnumDeclaration',
+  'EnumMember',
+  'ModuleDeclaration',
+  'ImportDeclaration',
+  'ExportDeclaration',
+  'Decorator',
+  'SourceFile'
+] as const;
+
+/**
+ * Name of a SyntaxKind member, excluding the `First...` / `Last...` range markers that alias real kinds
+ */
+export type SyntaxKindName = Exclude<keyof typeof SyntaxKind, `First${string}` | `Last${string}` | 'Count'>;
+
+/**
+ * Every SyntaxKind name accepted as a node type
+ */
+export const SYNTAX_KIND_NAMES = Object.keys(SyntaxKind).filter(
+  name => isNaN(Number(name)) && !/^(First|Last)[A-Z]/.test(name) && name !== 'Count'
+) as SyntaxKindName[];
+
+export type NodeType = typeof NODE_TYPES[number] | SyntaxKindName | '*';
+
+/**
+ * SyntaxKind of the node types named differently from their kind
+ */
+export const NODE_TYPE_KINDS: { readonly [nodeType: string]: SyntaxKind } = {
+  GetAccessorDeclaration: SyntaxKind.GetAccessor,
+  SetAccessorDeclaration: SyntaxKind.SetAccessor,
+  ConstructorDeclaration: SyntaxKind.Constructor
+};
+
+/**
+ * A projected column in the SELECT list
+ */
+export interface SelectColumn extends PropertyReference {
+  /** Output key in result rows; defaults to the property name, qualified with its source in joins */
+  alias?: string;
+}
+
+/**
+ * A projected aggregate in the SELECT list of a grouped query
+ */
+export interface AggregateColumn extends AggregateExpression {
+  /** Output key in result rows; defaults to the aggregate text, e.g. `COUNT(*)` */
+  alias?: string;
+}
+
+/**
+ * A sort key in the ORDER BY clause
+ */
+export interface OrderByItem extends PropertyReference {
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * A sort key on an aggregate, only valid in grouped queries
+ */
+export interface AggregateOrderByItem extends AggregateExpression {
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * A JOIN clause adding another node type to the FROM sources
+ */
+export interface JoinClause {
+  /** INNER keeps only matched rows; LEFT keeps unmatched rows with a null node */
+  type: 'inner' | 'left';
+  /** Node type of the joined nodes; for a view, the node type the view selects */
+  nodeType: NodeType;
+  /** Name of the view joined instead of all nodes of the type */
+  view?: string;
+  alias?: string;
+  on: WhereExpression;
+}
+
+/**
+ * Operators combining the results of two queries; UNION, INTERSECT and EXCEPT drop duplicates
+ * (the same node, or the same column values when the queries select columns)
+ */
+export const SET_OPERATORS = ['UNION', 'UNION ALL', 'INTERSECT', 'EXCEPT'] as const;
+
+export type SetOperator = typeof SET_OPERATORS[number];
+
+/**
+ * A query combined with the result of the queries before it
+ */
+export interface CompoundPart {
+  operator: SetOperator;
+  /** The combined query; it has no ORDER BY, LIMIT, OFFSET or WITH clause of its own */
+  query: ParsedQuery;
+}
+
+/**
+ * What a `WITH` clause adds to the result of a query, e.g. `WITH REFERENCES, SUBTYPES`
+ */
+export const QUERY_EXPANSIONS = ['REFERENCES', 'SUBTYPES', 'SUPERTYPES', 'CALLERS', 'CALLEES', 'DEPENDENCIES'] as const;
+
+export type QueryExpansion = typeof QUERY_EXPANSIONS[number];
+
+/**
+ * Expansions that follow a graph and take a `DEPTH n`, e.g. `WITH CALLERS DEPTH 2`; callers and
+ * callees default to depth 1, dependencies to the whole closure
+ */
+export const DEPTH_EXPANSIONS: readonly QueryExpansion[] = ['CALLERS', 'CALLEES', 'DEPENDENCIES'];
+
+/**
+ * Which references WITH REFERENCES keeps
+ */
+export interface ReferenceFilter {
+  /** Drop the declarations of the node itself (EXCLUDING DECLARATIONS) */
+  excludeDeclarations: boolean;
+  /**
+   * Condition each reference must satisfy (WITH REFERENCES WHERE ...); properties are read from the
+   * referencing identifier, except `kind`, which is the reference's kind
+   */
+  where?: WhereExpression;
+}
 
 /**
  * Parsed query structure
  */
 export interface ParsedQuery {
+  /** Projected columns; undefined for SELECT * */
+  columns?: Array<SelectColumn | AggregateColumn>;
+  /** Node type of the FROM source; for a view, the node type the view selects */
   nodeType: NodeType;
-  where?: WhereCondition[];
+  /** Name of the view selected from instead of all nodes of the type */
+  view?: string;
+  /** Alias of the FROM node type, e.g. `c` in `FROM ClassDeclaration c` */
+  alias?: string;
+  joins?: JoinClause[];
+  where?: WhereExpression;
+  groupBy?: PropertyPath[];
+  having?: HavingExpression;
+  /**
+   * Queries combined with this one by UNION, INTERSECT or EXCEPT, applied left to right; ORDER BY,
+   * LIMIT, OFFSET and WITH then apply to the combined result
+   */
+  compound?: CompoundPart[];
+  orderBy?: Array<OrderByItem | AggregateOrderByItem>;
+  limit?: number;
+  offset?: number;
   withReferences: boolean;
+  referenceFilter?: ReferenceFilter;
+  /** Whether to collect the classes and interfaces inheriting from each node (WITH SUBTYPES) */
+  withSubtypes?: boolean;
+  /** Whether to collect the base classes and interfaces of each node (WITH SUPERTYPES) */
+  withSupertypes?: boolean;
+  /** How many levels of callers to collect for each node (WITH CALLERS [DEPTH n]) */
+  withCallers?: number;
+  /** How many levels of callees to collect for each node (WITH CALLEES [DEPTH n]) */
+  withCallees?: number;
+  /**
+   * Whether to collect the declarations each node's signature depends on (WITH DEPENDENCIES [DEPTH n]),
+   * following them up to `depth` levels or, without a depth, until no new ones are found
+   */
+  withDependencies?: { depth?: number };
+}
+
+/**
+ * A named query defined with CREATE VIEW, usable as a FROM or JOIN source
+ *
+ * The query selects `*`, so the view stands for the nodes the query returns.
+ */
+export interface ViewDefinition {
+  name: string;
+  query: ParsedQuery;
+}
+
+/**
+ * Version of the serialized query format written by toJSON
+ */
+export const QUERY_JSON_VERSION = 1;
+
+/**
+ * Serialized form of a parsed query, as written by toJSON and read by fromJSON
+ *
+ * `query` is the ParsedQuery itself with undefined fields left out. Readers must reject versions
+ * they do not know; the version is raised whenever the shape of ParsedQuery changes incompatibly.
+ */
+export interface QueryJSON {
+  version: typeof QUERY_JSON_VERSION;
+  query: ParsedQuery;
 }
 
 /**
@@ -56,20 +515,85 @@ export interface ParsedQuery {
  */
 export interface QueryResult<T extends Node = Node> {
   nodes: T[];
-  references?: Map<T, Node[]>;
+  /**
+   * Plain rows, present when the query projects columns: one per node, or one per
+   * group for GROUP BY and aggregate queries
+   */
+  rows?: QueryRow[];
+  /**
+   * Joined rows, present for queries with JOIN: the node bound to each source alias (or
+   * node type when unaliased), null where a LEFT JOIN found no match. `nodes` then holds
+   * the distinct nodes of the first source.
+   */
+  tuples?: NodeTuple[];
+  /** References (usages) of each node, for WITH REFERENCES */
+  references?: Map<T, NodeReference[]>;
+  /** Classes and interfaces inheriting from each node, directly or not, for WITH SUBTYPES */
+  subtypes?: Map<T, Node[]>;
+  /** Base classes and interfaces of each node, directly or not, for WITH SUPERTYPES */
+  supertypes?: Map<T, Node[]>;
+  /** Functions and methods calling each node, up to the requested depth, for WITH CALLERS */
+  callers?: Map<T, Node[]>;
+  /** Functions and methods called by each node, up to the requested depth, for WITH CALLEES */
+  callees?: Map<T, Node[]>;
+  /**
+   * Interfaces, type aliases, enums and classes each node's signature depends on, directly or through
+   * other dependencies, for WITH DEPENDENCIES
+   */
+  dependencies?: Map<T, Node[]>;
+}
+
+/**
+ * How a reference uses the referenced declaration
+ *
+ * - declaration: the declaration's own name
+ * - import / export: an import or export specifier or clause naming it
+ * - type-reference: a type annotation, heritage clause or `typeof` type
+ * - call: the callee of a call or `new` expression
+ * - write: the target of an assignment
+ * - read: any other use of its value
+ */
+export const REFERENCE_KINDS = ['declaration', 'import', 'export', 'type-reference', 'call', 'read', 'write'] as const;
+
+export type ReferenceKind = typeof REFERENCE_KINDS[number];
+
+/**
+ * One reference to a node found by WITH REFERENCES
+ */
+export interface NodeReference {
+  kind: ReferenceKind;
+  /** The referencing identifier */
+  node: Node;
+  /** Path of the file the reference is in */
+  path: string;
+  /** 1-based line of the reference */
+  line: number;
+  /** 1-based column of the reference */
+  column: number;
 }
 
+/**
+ * One joined row, keyed by source alias
+ */
+export type NodeTuple = Record<string, Node | null>;
+
+/**
+ * A projected result row keyed by column alias (or property name)
+ */
+export type QueryRow = Record<string, PropertyValue>;
+
 /**
  * Options for the selector
  */
 export interface SelectorOptions {
   /**
-   * When true, includes all source files in the project
+   * When true, includes all source files in the project, and WITH DEPENDENCIES also lists
+   * declarations in node_modules
    */
   includeNodeModules?: boolean;
   
   /**
-   * Maximum number of results to return
+   * Maximum number of results to return, applied together with any LIMIT in the query
    */
   maxResults?: number;
 }
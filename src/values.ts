@@ -0,0 +1,139 @@
+import { SyntaxKind } from 'ts-morph';
+import {
+  AggregateColumn,
+  AggregateExpression,
+  AggregateFunction,
+  NODE_TYPE_KINDS,
+  NodeType,
+  Operand,
+  PropertyName,
+  PropertyPath,
+  PropertyValue,
+  SelectColumn
+} from './types';
+
+/**
+ * Keywords that may follow a FROM source and so cannot be read as its alias unless it follows `AS`
+ */
+export const CLAUSE_KEYWORDS = [
+  'WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'WITH', 'JOIN', 'INNER', 'LEFT', 'ON', 'UNION', 'INTERSECT', 'EXCEPT'
+];
+
+/**
+ * Check whether a column, sort key or condition is an aggregate
+ */
+export function isAggregate(expression: object): expression is AggregateExpression {
+  return 'aggregate' in expression;
+}
+
+/**
+ * The SyntaxKind a node type selects
+ */
+export function syntaxKindOf(nodeType: Exclude<NodeType, '*'>): SyntaxKind {
+  return NODE_TYPE_KINDS[nodeType] ?? SyntaxKind[nodeType as keyof typeof SyntaxKind];
+}
+
+/**
+ * The property a path finally reads, e.g. `name` for `parent.name`
+ */
+export function pathProperty(path: PropertyPath): PropertyName {
+  return path.slice(path.lastIndexOf('.') + 1) as PropertyName;
+}
+
+/**
+ * Whether two properties or aggregates read the same value
+ */
+export function sameOperand(a: Operand, b: Operand): boolean {
+  if (isAggregate(a) || isAggregate(b)) {
+    return isAggregate(a) && isAggregate(b) && a.aggregate === b.aggregate && a.property === b.property;
+  }
+  return a.source === b.source && a.property === b.property;
+}
+
+/**
+ * Default output name of an aggregate column, e.g. `COUNT(*)` or `MAX(line)`
+ */
+export function aggregateLabel(expression: AggregateExpression): string {
+  return `${expression.aggregate}(${expression.property ?? '*'})`;
+}
+
+/**
+ * Output key of a SELECT column in result rows
+ */
+export function columnLabel(column: SelectColumn | AggregateColumn): string {
+  if (column.alias) {
+    return column.alias;
+  }
+  if (isAggregate(column)) {
+    return aggregateLabel(column);
+  }
+  return column.source ? `${column.source}.${column.property}` : column.property;
+}
+
+/**
+ * Compare two property values: numbers numerically, everything else as strings, nulls last
+ */
+export function compareValues(a: PropertyValue, b: PropertyValue): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === null) {
+    return 1;
+  }
+  if (b === null) {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  const left = String(a);
+  const right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Compare a resolved value with a query literal for <, >, BETWEEN and friends
+ *
+ * Numbers compare numerically (a non-numeric literal yields NaN and so never matches);
+ * everything else compares as strings.
+ */
+export function compareToLiteral(value: string | number, literal: string | number): number {
+  if (typeof value === 'number') {
+    return value - Number(literal);
+  }
+  return compareValues(value, String(literal));
+}
+
+/**
+ * Compute an aggregate over the values of a group
+ *
+ * Null values (nodes without the property) are ignored, as in SQL. COUNT of an
+ * empty set is 0; every other aggregate of an empty set is null.
+ */
+export function computeAggregate(aggregate: AggregateFunction, values: PropertyValue[]): PropertyValue {
+  const present = values.filter((value): value is string | number => value !== null);
+
+  switch (aggregate) {
+    case 'COUNT':
+      return present.length;
+
+    case 'MIN':
+    case 'MAX': {
+      if (present.length === 0) {
+        return null;
+      }
+      const sign = aggregate === 'MIN' ? 1 : -1;
+      return present.reduce((best, value) => (sign * compareValues(value, best) < 0 ? value : best));
+    }
+
+    case 'SUM':
+    case 'AVG': {
+      const numbers = present.filter((value): value is number => typeof value === 'number');
+      if (numbers.length === 0) {
+        return null;
+      }
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return aggregate === 'SUM' ? sum : sum / numbers.length;
+    }
+  }
+}